@@ -1,5 +1,4 @@
-import React, { useState, useEffect } from "react";
-import { createRoot } from "react-dom/client";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { initializeApp, getApps } from "firebase/app";
 import {
   getAuth,
@@ -7,27 +6,75 @@ import {
   signInWithPopup,
   signOut,
   onAuthStateChanged,
+  connectAuthEmulator,
   User as FirebaseUser,
 } from "firebase/auth";
 import {
   getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
   collection,
   doc,
   setDoc,
+  deleteDoc,
   getDoc,
+  getDocs,
   onSnapshot,
   query,
   orderBy,
+  runTransaction,
+  serverTimestamp,
+  connectFirestoreEmulator,
+  Timestamp,
 } from "firebase/firestore";
+import "@fontsource/raleway/100.css";
+import "@fontsource/raleway/300.css";
+import "@fontsource/raleway/400.css";
+import "@fontsource/raleway/500.css";
+import "@fontsource/raleway/700.css";
+import "@fontsource/raleway/900.css";
+import "@fortawesome/fontawesome-free/css/all.min.css";
+import "./index.css";
+import {
+  DEFAULT_CALENDAR,
+  computeStreaks,
+  dailyTotals,
+  dayKey,
+  daysActive,
+  fromWallClock,
+  hourOf,
+  hourlyTotals,
+  inPeriod,
+  isValidTimeZone,
+  periodDays,
+  periodStart,
+  ratingFor,
+  shiftDay,
+  shiftMonth,
+  timeOf,
+  todayKey,
+  weekdayOf,
+  weekdayOrder,
+  weekdayTotals,
+  type Calendar,
+  type DayKey,
+  type Period,
+  type StreakStats,
+} from "./stats";
 
 // ---------------------------------------------------------
 // FIREBASE CONFIG (VITE ENV VARS)
 // ---------------------------------------------------------
 
+// VITE_FIREBASE_EMULATORS=true points the app at `npm run emulators` instead
+// of the real project; no keys are needed then.
+const useEmulators = import.meta.env.VITE_FIREBASE_EMULATORS === "true";
+
 const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY || (useEmulators ? "demo-key" : undefined),
   authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || (useEmulators ? "demo-neonfocus" : undefined),
   storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
   messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
   appId: import.meta.env.VITE_FIREBASE_APP_ID,
@@ -51,7 +98,7 @@ function initFirebaseOnce() {
     import.meta.env.VITE_FIREBASE_API_KEY ? "[present]" : "[missing]"
   );
 
-  if (!import.meta.env.VITE_FIREBASE_API_KEY) {
+  if (!firebaseConfig.apiKey) {
     console.warn("Firebase API key missing.");
     return;
   }
@@ -60,7 +107,16 @@ function initFirebaseOnce() {
     const _app = initializeApp(firebaseConfig);
     app = _app;
     auth = getAuth(app);
-    db = getFirestore(app);
+    db = initializeFirestore(app, {
+      // optional fields (e.g. a log's project) are left undefined rather than stripped
+      ignoreUndefinedProperties: true,
+      // reads come from the local cache and writes queue up while offline
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
+    if (useEmulators) {
+      connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+      connectFirestoreEmulator(db, "127.0.0.1", 8080);
+    }
   } else {
     app = getApps()[0];
     auth = getAuth(app);
@@ -76,29 +132,181 @@ initFirebaseOnce();
 // UTILITY TYPES
 // ---------------------------------------------------------
 
-type View = "timer" | "journal" | "progress";
+type View = "timer" | "tasks" | "room" | "team" | "journal" | "journals" | "progress" | "history" | "settings";
+
+type TimerMode = "focus" | "short" | "long";
+
+// how a log came about; logs from before this was tracked have none
+type SessionStatus = "completed" | "interrupted" | "manual";
 
 interface WorkLog {
   id: string;
   timestamp: number;
   durationSeconds: number;
+  status?: SessionStatus;
+  project?: string;
+  taskId?: string; // the Task the session was spent on
+  interruptions?: Interruption[]; // timer sessions only, absent on older logs
+  pauses?: PauseSpan[];
+}
+
+type InterruptionKind = "internal" | "external";
+
+interface Interruption {
+  at: number;
+  kind: InterruptionKind;
+  note?: string;
+}
+
+interface PauseSpan {
+  pausedAt: number;
+  resumedAt: number;
+}
+
+interface Task {
+  id: string;
+  title: string;
+  estimate: number; // pomodoros
+  createdAt: number;
+  completedAt?: number; // set once the task is ticked off
 }
 
+// A log yet to be saved. The timer names its logs after the session, so
+// when two tabs both see a session end the second save overwrites the first.
+type NewWorkLog = Omit<WorkLog, "id"> & { id?: string };
+
 interface DailyJournal {
   date: string;
-  highlight: string;
-  rating: number;
+  highlight: string; // answer to "what did you achieve?"
+  rating: number; // time-based, see ratingFor
+  answers?: Record<string, string>; // JournalPrompt id -> answer
+  tomorrow?: string; // top task for the next day
+  mood?: number; // self-reported, 1-5
+  energy?: number; // self-reported, 1-5
+  tags?: string[];
+}
+
+interface JournalPrompt {
+  id: string;
+  question: string;
+}
+
+interface TimerSettings {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // focus sessions per long break
+  autoAdvance: boolean;
+}
+
+type SoundId = "chime" | "bell" | "beep" | "meow";
+
+interface AlertSettings {
+  focusSound: SoundId | "none"; // when a focus session ends
+  breakSound: SoundId | "none"; // when a break ends
+  volume: number; // 0-100
+  notifyFocus: boolean; // system notification while the tab is in the background
+  notifyBreak: boolean;
+}
+
+interface GoalSettings {
+  weekdayHours: number[]; // sunday first; 0 makes it a rest day
+  rampUp: boolean; // ease in from rampStartHours over the first rampDays days
+  rampStartHours: number;
+  rampDays: number;
 }
 
 interface UserSettings {
   startDate: number;
+  timer: TimerSettings;
+  alerts: AlertSettings;
+  goals: GoalSettings;
+  projects: string[];
+  journalPrompts: JournalPrompt[]; // asked on top of the highlight and tomorrow's task
+  streakFreezesPerMonth: number; // missed days a streak survives each month, 0 = off
+  teams: string[]; // ids of the teams this user shares weekly totals with
+  calendar: Calendar; // what "today", "this week" and "this month" mean
+  theme: ThemeId;
 }
 
+// palettes are css variables in index.css, picked by the root's data-theme
+type ThemeId = "neon" | "light" | "contrast";
+
+const THEME_LABELS: Record<ThemeId, string> = {
+  neon: "neon",
+  light: "light",
+  contrast: "high contrast",
+};
+
 // ---------------------------------------------------------
 // HELPERS
 // ---------------------------------------------------------
 
-const getTodayKey = () => new Date().toLocaleDateString("en-CA");
+// Which day it is always comes from the user's Calendar (see stats.ts); this
+// is only for formatting a day key, e.g. as a month name.
+const fromDayKey = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// a real date in YYYY-MM-DD form; 2024-02-31 would roll over to march
+const isDayKey = (key: string) => /^\d{4}-\d{2}-\d{2}$/.test(key) && shiftDay(key, 0) === key;
+
+const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+  autoAdvance: false,
+};
+
+const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  focusSound: "beep",
+  breakSound: "chime",
+  volume: 60,
+  notifyFocus: false,
+  notifyBreak: false,
+};
+
+// matches the old fixed targets: about 4h while starting out, 5h after that
+const DEFAULT_GOAL_SETTINGS: GoalSettings = {
+  weekdayHours: [5, 5, 5, 5, 5, 5, 5],
+  rampUp: true,
+  rampStartHours: 4,
+  rampDays: 10,
+};
+
+const defaultSettings = (): UserSettings => ({
+  startDate: Date.now(),
+  timer: DEFAULT_TIMER_SETTINGS,
+  alerts: DEFAULT_ALERT_SETTINGS,
+  goals: DEFAULT_GOAL_SETTINGS,
+  projects: [],
+  journalPrompts: [{ id: "blockers", question: "what got in the way?" }],
+  streakFreezesPerMonth: 0,
+  teams: [],
+  calendar: DEFAULT_CALENDAR,
+  theme: "neon",
+});
+
+// stored settings may predate newer fields, so fill the gaps group by group
+const withDefaults = (stored: Partial<UserSettings>, defaults: UserSettings): UserSettings => ({
+  ...defaults,
+  ...stored,
+  timer: { ...defaults.timer, ...stored.timer },
+  alerts: { ...defaults.alerts, ...stored.alerts },
+  goals: { ...defaults.goals, ...stored.goals },
+  calendar: { ...defaults.calendar, ...stored.calendar },
+  // a theme from a newer build (or a hand-edited export) falls back to the default
+  theme: stored.theme && Object.hasOwn(THEME_LABELS, stored.theme) ? stored.theme : defaults.theme,
+});
+
+const durationForMode = (timer: TimerSettings, m: TimerMode) =>
+  (m === "focus"
+    ? timer.focusMinutes
+    : m === "short"
+      ? timer.shortBreakMinutes
+      : timer.longBreakMinutes) * 60;
 
 const formatTime = (seconds: number) => {
   const m = Math.floor(seconds / 60);
@@ -112,6 +320,748 @@ const formatDuration = (seconds: number) => {
   return `${h}h ${m}m`;
 };
 
+// ---------------------------------------------------------
+// STORAGE BACKENDS
+// ---------------------------------------------------------
+
+// Everything the app persists goes through this interface, so the views
+// don't care whether the user is signed in (firestore) or not (browser).
+interface StorageBackend {
+  kind: "local" | "cloud";
+  subscribeLogs: (cb: (logs: WorkLog[]) => void) => () => void;
+  subscribeJournals: (cb: (journals: DailyJournal[]) => void) => () => void;
+  subscribeTasks: (cb: (tasks: Task[]) => void) => () => void;
+  subscribeSettings: (defaults: UserSettings, cb: (settings: UserSettings) => void) => () => void;
+  getLogs: () => Promise<WorkLog[]>;
+  getJournals: () => Promise<DailyJournal[]>;
+  getTasks: () => Promise<Task[]>;
+  loadSettings: (defaults: UserSettings) => Promise<UserSettings>;
+  saveLog: (log: WorkLog) => Promise<void>;
+  deleteLog: (id: string) => Promise<void>;
+  saveJournal: (entry: DailyJournal) => Promise<void>;
+  saveTask: (task: Task) => Promise<void>;
+  deleteTask: (id: string) => Promise<void>;
+  saveSettings: (settings: UserSettings) => Promise<void>;
+}
+
+const sortLogs = (logs: WorkLog[]) => [...logs].sort((a, b) => b.timestamp - a.timestamp);
+
+// oldest first, the order they were added in
+const sortTasks = (tasks: Task[]) => [...tasks].sort((a, b) => a.createdAt - b.createdAt);
+
+// en-CA keys are YYYY-MM-DD, so string order is date order
+const sortJournals = (journals: DailyJournal[]) =>
+  [...journals].sort((a, b) => b.date.localeCompare(a.date));
+
+// --- local (signed out) ---
+
+const LOCAL_KEYS = {
+  logs: "neonfocus:logs",
+  journals: "neonfocus:journals",
+  tasks: "neonfocus:tasks",
+  settings: "neonfocus:settings",
+} as const;
+
+// Values localStorage refused (site data blocked, or the quota is full). They
+// only last as long as the tab, but the app keeps working instead of crashing.
+const memoryStore = new Map<string, string>();
+let warnedAboutStorage = false;
+
+const readLocal = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = memoryStore.get(key) ?? window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const localListeners = new Set<(key: string) => void>();
+
+const writeLocal = (key: string, value: unknown) => {
+  const raw = JSON.stringify(value);
+  try {
+    window.localStorage.setItem(key, raw);
+    memoryStore.delete(key);
+  } catch (err) {
+    console.error(`saving ${key} locally failed:`, err);
+    memoryStore.set(key, raw);
+    if (!warnedAboutStorage) {
+      warnedAboutStorage = true;
+      alert("this browser won't let neonfocus save anything. it'll work, but only until you close the tab.");
+    }
+  }
+  localListeners.forEach((l) => l(key));
+};
+
+// other tabs writing to the same keys
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (e) => {
+    if (e.key) localListeners.forEach((l) => l(e.key!));
+  });
+}
+
+const subscribeLocal = <T,>(key: string, read: () => T, cb: (value: T) => void) => {
+  const listener = (changed: string) => {
+    if (changed === key) cb(read());
+  };
+  localListeners.add(listener);
+  cb(read());
+  return () => {
+    localListeners.delete(listener);
+  };
+};
+
+const createLocalBackend = (): StorageBackend => {
+  const readLogs = () => sortLogs(readLocal<WorkLog[]>(LOCAL_KEYS.logs, []));
+  const readJournals = () => sortJournals(readLocal<DailyJournal[]>(LOCAL_KEYS.journals, []));
+  const readTasks = () => sortTasks(readLocal<Task[]>(LOCAL_KEYS.tasks, []));
+  const readSettings = (defaults: UserSettings) => {
+    const stored = readLocal<UserSettings | null>(LOCAL_KEYS.settings, null);
+    if (stored) return withDefaults(stored, defaults);
+    writeLocal(LOCAL_KEYS.settings, defaults);
+    return defaults;
+  };
+
+  return {
+    kind: "local",
+    subscribeLogs: (cb) => subscribeLocal(LOCAL_KEYS.logs, readLogs, cb),
+    subscribeJournals: (cb) => subscribeLocal(LOCAL_KEYS.journals, readJournals, cb),
+    subscribeTasks: (cb) => subscribeLocal(LOCAL_KEYS.tasks, readTasks, cb),
+    subscribeSettings: (defaults, cb) =>
+      subscribeLocal(LOCAL_KEYS.settings, () => readSettings(defaults), cb),
+    getLogs: async () => readLogs(),
+    getJournals: async () => readJournals(),
+    getTasks: async () => readTasks(),
+    loadSettings: async (defaults) => readSettings(defaults),
+    saveLog: async (log) => {
+      const rest = readLogs().filter((l) => l.id !== log.id);
+      writeLocal(LOCAL_KEYS.logs, sortLogs([...rest, log]));
+    },
+    deleteLog: async (id) => {
+      writeLocal(LOCAL_KEYS.logs, readLogs().filter((l) => l.id !== id));
+    },
+    saveJournal: async (entry) => {
+      const rest = readJournals().filter((j) => j.date !== entry.date);
+      writeLocal(LOCAL_KEYS.journals, sortJournals([...rest, entry]));
+    },
+    saveTask: async (task) => {
+      const rest = readTasks().filter((t) => t.id !== task.id);
+      writeLocal(LOCAL_KEYS.tasks, sortTasks([...rest, task]));
+    },
+    deleteTask: async (id) => {
+      writeLocal(LOCAL_KEYS.tasks, readTasks().filter((t) => t.id !== id));
+    },
+    saveSettings: async (settings) => writeLocal(LOCAL_KEYS.settings, settings),
+  };
+};
+
+// --- firestore (signed in): users/{uid}/logs|journals|tasks|settings ---
+
+const createFirestoreBackend = (uid: string): StorageBackend => {
+  const logsRef = collection(db, "users", uid, "logs");
+  const journRef = collection(db, "users", uid, "journals");
+  const tasksRef = collection(db, "users", uid, "tasks");
+  const settingsRef = doc(db, "users", uid, "settings", "general");
+
+  return {
+    kind: "cloud",
+    subscribeLogs: (cb) =>
+      onSnapshot(query(logsRef, orderBy("timestamp", "desc")), (snap) =>
+        cb(snap.docs.map((d) => d.data() as WorkLog))
+      ),
+    subscribeJournals: (cb) =>
+      onSnapshot(journRef, (snap) =>
+        cb(sortJournals(snap.docs.map((d) => d.data() as DailyJournal)))
+      ),
+    subscribeTasks: (cb) =>
+      onSnapshot(tasksRef, (snap) => cb(sortTasks(snap.docs.map((d) => d.data() as Task)))),
+    // Offline with nothing cached, the doc only looks missing; wait for the server
+    // before writing defaults over settings that may well exist.
+    subscribeSettings: (defaults, cb) =>
+      onSnapshot(
+        settingsRef,
+        { includeMetadataChanges: true },
+        (snap) => {
+          if (snap.exists()) cb(withDefaults(snap.data() as Partial<UserSettings>, defaults));
+          else if (!snap.metadata.fromCache)
+            setDoc(settingsRef, defaults).catch((err) =>
+              console.error("failed to save default settings:", err)
+            );
+        },
+        (err) => console.error("settings subscription failed:", err)
+      ),
+    getLogs: async () => {
+      const snap = await getDocs(query(logsRef, orderBy("timestamp", "desc")));
+      return snap.docs.map((d) => d.data() as WorkLog);
+    },
+    getJournals: async () => {
+      const snap = await getDocs(journRef);
+      return sortJournals(snap.docs.map((d) => d.data() as DailyJournal));
+    },
+    getTasks: async () => {
+      const snap = await getDocs(tasksRef);
+      return sortTasks(snap.docs.map((d) => d.data() as Task));
+    },
+    loadSettings: async (defaults) => {
+      const s = await getDoc(settingsRef);
+      if (s.exists()) return withDefaults(s.data() as Partial<UserSettings>, defaults);
+      await setDoc(settingsRef, defaults);
+      return defaults;
+    },
+    saveLog: (log) => setDoc(doc(logsRef, log.id), log),
+    deleteLog: (id) => deleteDoc(doc(logsRef, id)),
+    saveJournal: (entry) => setDoc(doc(journRef, entry.date), entry),
+    saveTask: (task) => setDoc(doc(tasksRef, task.id), task),
+    deleteTask: (id) => deleteDoc(doc(tasksRef, id)),
+    saveSettings: (settings) => setDoc(settingsRef, settings),
+  };
+};
+
+const clearLocalData = () => {
+  const keys = [LOCAL_KEYS.logs, LOCAL_KEYS.journals, LOCAL_KEYS.tasks];
+  keys.forEach((k) => {
+    memoryStore.delete(k);
+    try {
+      window.localStorage.removeItem(k);
+    } catch {
+      // blocked storage had nothing in it to begin with
+    }
+  });
+  localListeners.forEach((l) => keys.forEach((k) => l(k)));
+};
+
+// ---------------------------------------------------------
+// GUEST DATA MERGE
+// ---------------------------------------------------------
+
+// timestamp plus a random suffix so two devices logging in the same
+// millisecond don't overwrite each other
+const newLogId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isSameLog = (a: WorkLog, b: WorkLog) =>
+  a.timestamp === b.timestamp && a.durationSeconds === b.durationSeconds;
+
+// Works out what has to be written to the cloud so it ends up holding
+// both sides. Rules:
+// - a log whose id is free is uploaded as is
+// - a log whose id is taken by the same session is skipped (already uploaded)
+// - a log whose id is taken by a different session gets a fresh id
+// - a journal for a date the cloud doesn't have is uploaded as is
+// - a journal for a date the cloud already has keeps the cloud entry, adds the
+//   guest highlight if it differs, takes the higher rating, joins the tags and
+//   fills in prompt answers, tomorrow's task, mood and energy it lacks
+// - a task is uploaded unless the cloud already has its id (task ids are random)
+const mergeGuestData = (
+  guest: { logs: WorkLog[]; journals: DailyJournal[]; tasks: Task[] },
+  cloud: { logs: WorkLog[]; journals: DailyJournal[]; tasks: Task[] }
+) => {
+  const cloudLogs = new Map(cloud.logs.map((l) => [l.id, l]));
+  const cloudJournals = new Map(cloud.journals.map((j) => [j.date, j]));
+
+  const logs: WorkLog[] = [];
+  for (const log of guest.logs) {
+    const existing = cloudLogs.get(log.id);
+    if (!existing) logs.push(log);
+    else if (!isSameLog(existing, log)) logs.push({ ...log, id: newLogId() });
+  }
+
+  const journals: DailyJournal[] = [];
+  for (const entry of guest.journals) {
+    const existing = cloudJournals.get(entry.date);
+    if (!existing) {
+      journals.push(entry);
+      continue;
+    }
+    const guestHighlight = entry.highlight.trim();
+    const highlight =
+      !guestHighlight || existing.highlight.includes(guestHighlight)
+        ? existing.highlight
+        : `${existing.highlight}\n${guestHighlight}`;
+    const merged: DailyJournal = { ...existing, highlight, rating: Math.max(existing.rating, entry.rating) };
+    const answers = { ...entry.answers, ...existing.answers };
+    if (Object.keys(answers).length > 0) merged.answers = answers;
+    const tomorrow = existing.tomorrow || entry.tomorrow;
+    if (tomorrow) merged.tomorrow = tomorrow;
+    const mood = existing.mood ?? entry.mood;
+    if (mood !== undefined) merged.mood = mood;
+    const energy = existing.energy ?? entry.energy;
+    if (energy !== undefined) merged.energy = energy;
+    const tags = [...new Set([...(existing.tags ?? []), ...(entry.tags ?? [])])];
+    if (tags.length > 0) merged.tags = tags;
+    // new fields go on the end, so an unchanged entry serialises the same
+    if (JSON.stringify(merged) !== JSON.stringify(existing)) journals.push(merged);
+  }
+
+  const cloudTaskIds = new Set(cloud.tasks.map((t) => t.id));
+  const tasks = guest.tasks.filter((t) => !cloudTaskIds.has(t.id));
+
+  return { logs, journals, tasks };
+};
+
+// Offers to move everything recorded while signed out into the account.
+// Local data is only cleared once the upload has gone through. Resolves to
+// the account's settings after the merge, or null when nothing was merged.
+const offerGuestMerge = async (uid: string): Promise<UserSettings | null> => {
+  const local = createLocalBackend();
+  const [guestLogs, guestJournals, guestTasks] = await Promise.all([
+    local.getLogs(),
+    local.getJournals(),
+    local.getTasks(),
+  ]);
+  if (guestLogs.length === 0 && guestJournals.length === 0 && guestTasks.length === 0) return null;
+
+  const ok = confirm(
+    `upload ${guestLogs.length} sessions, ${guestJournals.length} journal entries and ${guestTasks.length} tasks from this device to your account?`
+  );
+  if (!ok) return null;
+
+  const cloud = createFirestoreBackend(uid);
+  const [cloudLogs, cloudJournals, cloudTasks] = await Promise.all([
+    cloud.getLogs(),
+    cloud.getJournals(),
+    cloud.getTasks(),
+  ]);
+  const toWrite = mergeGuestData(
+    { logs: guestLogs, journals: guestJournals, tasks: guestTasks },
+    { logs: cloudLogs, journals: cloudJournals, tasks: cloudTasks }
+  );
+
+  await Promise.all([
+    ...toWrite.logs.map((l) => cloud.saveLog(l)),
+    ...toWrite.journals.map((j) => cloud.saveJournal(j)),
+    ...toWrite.tasks.map((t) => cloud.saveTask(t)),
+  ]);
+
+  // the account should count days from whichever side started first
+  const defaults = defaultSettings();
+  const [guestSettings, cloudSettings] = await Promise.all([
+    local.loadSettings(defaults),
+    cloud.loadSettings(defaults),
+  ]);
+  const merged = {
+    ...cloudSettings,
+    startDate: Math.min(guestSettings.startDate, cloudSettings.startDate),
+  };
+  if (merged.startDate !== cloudSettings.startDate) await cloud.saveSettings(merged);
+
+  clearLocalData();
+  return merged;
+};
+
+// ---------------------------------------------------------
+// EXPORT / IMPORT
+// ---------------------------------------------------------
+
+// Bump when the file layout changes, and teach parseExport to read the old one.
+const EXPORT_VERSION = 1;
+
+interface ExportFile {
+  app: "neonfocus";
+  version: number;
+  exportedAt: string;
+  settings: UserSettings;
+  logs: WorkLog[];
+  journals: DailyJournal[];
+  tasks?: Task[]; // missing from files exported before tasks existed
+}
+
+const buildExport = (
+  settings: UserSettings,
+  logs: WorkLog[],
+  journals: DailyJournal[],
+  tasks: Task[]
+): ExportFile => ({
+  app: "neonfocus",
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings,
+  logs,
+  journals,
+  tasks,
+});
+
+const csvCell = (v: string | number | undefined) => {
+  const text = v === undefined ? "" : String(v);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const logsToCsv = (logs: WorkLog[], calendar: Calendar) =>
+  [
+    [
+      "id",
+      "date",
+      "ended_at",
+      "minutes",
+      "duration_seconds",
+      "status",
+      "project",
+      "internal_interruptions",
+      "external_interruptions",
+      "pauses",
+    ].join(","),
+    ...logs.map((l) =>
+      [
+        l.id,
+        dayKey(l.timestamp, calendar),
+        new Date(l.timestamp).toISOString(),
+        Math.round(l.durationSeconds / 60),
+        l.durationSeconds,
+        l.status,
+        l.project,
+        l.interruptions?.filter((i) => i.kind === "internal").length,
+        l.interruptions?.filter((i) => i.kind === "external").length,
+        l.pauses?.length,
+      ]
+        .map(csvCell)
+        .join(",")
+    ),
+  ].join("\n");
+
+const icsEscape = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+
+const icsDate = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const utf8 = new TextEncoder();
+
+// RFC 5545 wants lines of at most 75 octets of UTF-8, continued with a leading
+// space that counts towards the next line's 75. Breaks fall between characters.
+const icsFold = (line: string) => {
+  const parts: string[] = [];
+  let part = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = utf8.encode(ch).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = "";
+      octets = 0;
+    }
+    part += ch;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join("\r\n ");
+};
+
+// One VEVENT per log. A log's timestamp is when the session ended, so each
+// event runs back from it by durationSeconds.
+const logsToIcs = (logs: WorkLog[]) => {
+  const stamp = icsDate(Date.now());
+  const events = logs.flatMap((l) => [
+    "BEGIN:VEVENT",
+    `UID:${l.id}@neonfocus`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${icsDate(l.timestamp - l.durationSeconds * 1000)}`,
+    `DTEND:${icsDate(l.timestamp)}`,
+    `SUMMARY:${icsEscape(l.project ? `focus: ${l.project}` : "focus")}`,
+    `DESCRIPTION:${icsEscape(`${formatDuration(l.durationSeconds)}${l.status ? ` · ${l.status}` : ""}`)}`,
+    "END:VEVENT",
+  ]);
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//neonfocus//focus sessions//EN",
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(icsFold)
+    .join("\r\n");
+};
+
+// inclusive day keys in the user's calendar; either end may be left open
+const logsInRange = (logs: WorkLog[], from: string, to: string, calendar: Calendar) =>
+  logs.filter((l) => {
+    const key = dayKey(l.timestamp, calendar);
+    return (!from || key >= from) && (!to || key <= to);
+  });
+
+const downloadFile = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const isRecord = (x: unknown): x is Record<string, unknown> =>
+  typeof x === "object" && x !== null && !Array.isArray(x);
+
+const isNumber = (x: unknown): x is number => typeof x === "number" && Number.isFinite(x);
+
+const isInt = (x: unknown, min: number, max = Infinity): x is number =>
+  Number.isInteger(x) && (x as number) >= min && (x as number) <= max;
+
+const isStringList = (x: unknown): x is string[] => Array.isArray(x) && x.every((s) => typeof s === "string");
+
+// ids become firestore document paths, so no slashes or reserved names
+const isDocId = (x: unknown): x is string =>
+  typeof x === "string" && x !== "" && x !== "." && x !== ".." && !x.includes("/") && !/^__.*__$/.test(x);
+
+const SESSION_STATUSES: SessionStatus[] = ["completed", "interrupted", "manual"];
+
+const isSessionStatus = (x: unknown): x is SessionStatus => SESSION_STATUSES.some((s) => s === x);
+
+const readImportedInterruption = (x: unknown): Interruption | null => {
+  if (!isRecord(x)) return null;
+  const { at, kind, note } = x;
+  if (!isNumber(at)) return null;
+  if (kind !== "internal" && kind !== "external") return null;
+  if (note !== undefined && typeof note !== "string") return null;
+  return { at, kind, note };
+};
+
+const readImportedPause = (x: unknown): PauseSpan | null => {
+  if (!isRecord(x)) return null;
+  const { pausedAt, resumedAt } = x;
+  if (!isNumber(pausedAt) || !isNumber(resumedAt) || resumedAt < pausedAt) return null;
+  return { pausedAt, resumedAt };
+};
+
+// all-or-nothing: one bad entry rejects the log rather than skewing its counts
+const readImportedList = <T,>(x: unknown, read: (item: unknown) => T | null): T[] | undefined | null => {
+  if (x === undefined) return undefined;
+  if (!Array.isArray(x)) return null;
+  const items = x.map(read);
+  return items.every((i): i is T => i !== null) ? items : null;
+};
+
+// returns the log with only known fields, or null if it isn't a valid one
+const readImportedLog = (x: unknown): WorkLog | null => {
+  if (!isRecord(x)) return null;
+  const { id, timestamp, durationSeconds, status, project, taskId } = x;
+  if (!isDocId(id)) return null;
+  if (!isNumber(timestamp) || timestamp <= 0) return null;
+  if (!isNumber(durationSeconds) || durationSeconds < 0) return null;
+  if (status !== undefined && !isSessionStatus(status)) return null;
+  if (project !== undefined && typeof project !== "string") return null;
+  if (taskId !== undefined && typeof taskId !== "string") return null;
+  const interruptions = readImportedList(x.interruptions, readImportedInterruption);
+  const pauses = readImportedList(x.pauses, readImportedPause);
+  if (interruptions === null || pauses === null) return null;
+  return { id, timestamp, durationSeconds, status, project, taskId, interruptions, pauses };
+};
+
+const readImportedTask = (x: unknown): Task | null => {
+  if (!isRecord(x)) return null;
+  const { id, title, estimate, createdAt, completedAt } = x;
+  if (!isDocId(id) || typeof title !== "string") return null;
+  if (!isInt(estimate, 0)) return null;
+  if (!isNumber(createdAt)) return null;
+  if (completedAt !== undefined && !isNumber(completedAt)) return null;
+  return { id, title, estimate, createdAt, completedAt };
+};
+
+const isScore = (v: unknown): v is number | undefined => v === undefined || isInt(v, 1, 5);
+
+const readImportedJournal = (x: unknown): DailyJournal | null => {
+  if (!isRecord(x)) return null;
+  const { date, highlight, rating, answers, tomorrow, mood, energy, tags } = x;
+  if (typeof date !== "string" || !isDayKey(date)) return null;
+  if (typeof highlight !== "string") return null;
+  // firestore.rules wants a whole number here
+  if (!isInt(rating, 0, 5)) return null;
+  if (answers !== undefined && !(isRecord(answers) && Object.values(answers).every((a) => typeof a === "string")))
+    return null;
+  if (tomorrow !== undefined && typeof tomorrow !== "string") return null;
+  if (!isScore(mood) || !isScore(energy)) return null;
+  if (tags !== undefined && !isStringList(tags)) return null;
+  return {
+    date,
+    highlight,
+    rating,
+    answers: answers as Record<string, string> | undefined,
+    tomorrow,
+    mood,
+    energy,
+    tags,
+  };
+};
+
+// A settings group is kept when every field it has is valid; missing fields
+// are filled in by withDefaults, so exports from older versions still load.
+const readSettingsGroup = <T extends object>(
+  x: unknown,
+  checks: { [K in keyof T]-?: (v: unknown) => boolean }
+): Partial<T> | undefined => {
+  if (!isRecord(x)) return undefined;
+  const group: Partial<T> = {};
+  for (const key of Object.keys(checks) as (keyof T & string)[]) {
+    if (x[key] === undefined) continue;
+    if (!checks[key](x[key])) return undefined;
+    group[key] = x[key] as T[typeof key];
+  }
+  return group;
+};
+
+const isSound = (v: unknown) => v === "none" || (typeof v === "string" && Object.hasOwn(SOUNDS, v));
+
+const isBoolean = (v: unknown) => typeof v === "boolean";
+
+// Only the groups that pass are returned, so a bad one falls back to what
+// the user has instead of breaking every later load.
+const readImportedSettings = (x: unknown): Partial<UserSettings> | null => {
+  if (!isRecord(x)) return null;
+  const settings: Partial<UserSettings> = {};
+
+  if (isNumber(x.startDate) && x.startDate > 0) settings.startDate = x.startDate;
+  const timer = readSettingsGroup<TimerSettings>(x.timer, {
+    focusMinutes: (v) => isInt(v, 1, 180),
+    shortBreakMinutes: (v) => isInt(v, 1, 60),
+    longBreakMinutes: (v) => isInt(v, 1, 120),
+    longBreakEvery: (v) => isInt(v, 1, 12),
+    autoAdvance: isBoolean,
+  });
+  const alerts = readSettingsGroup<AlertSettings>(x.alerts, {
+    focusSound: isSound,
+    breakSound: isSound,
+    volume: (v) => isNumber(v) && v >= 0 && v <= 100,
+    notifyFocus: isBoolean,
+    notifyBreak: isBoolean,
+  });
+  const goals = readSettingsGroup<GoalSettings>(x.goals, {
+    weekdayHours: (v) => Array.isArray(v) && v.length === 7 && v.every((h) => isNumber(h) && h >= 0 && h <= 16),
+    rampUp: isBoolean,
+    rampStartHours: (v) => isNumber(v) && v >= 0 && v <= 16,
+    rampDays: (v) => isInt(v, 1, 90),
+  });
+  const calendar = readSettingsGroup<Calendar>(x.calendar, {
+    weekStartsOn: (v) => isInt(v, 0, 6),
+    timeZone: (v) => typeof v === "string" && isValidTimeZone(v),
+  });
+  if (timer) settings.timer = timer as TimerSettings;
+  if (alerts) settings.alerts = alerts as AlertSettings;
+  if (goals) settings.goals = goals as GoalSettings;
+  if (calendar) settings.calendar = calendar as Calendar;
+
+  if (isStringList(x.projects)) settings.projects = x.projects;
+  if (
+    Array.isArray(x.journalPrompts) &&
+    x.journalPrompts.every((p) => isRecord(p) && typeof p.id === "string" && typeof p.question === "string")
+  ) {
+    settings.journalPrompts = x.journalPrompts.map((p) => ({ id: p.id, question: p.question }));
+  }
+  if (isInt(x.streakFreezesPerMonth, 0, 10)) settings.streakFreezesPerMonth = x.streakFreezesPerMonth;
+  if (Array.isArray(x.teams) && x.teams.every(isDocId)) settings.teams = x.teams;
+  if (typeof x.theme === "string" && Object.hasOwn(THEME_LABELS, x.theme)) settings.theme = x.theme as ThemeId;
+
+  return settings;
+};
+
+interface ParsedImport {
+  logs: WorkLog[];
+  journals: DailyJournal[];
+  tasks: Task[];
+  settings: Partial<UserSettings> | null;
+  invalid: number; // records that failed validation and were left out
+}
+
+const parseExport = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("that file isn't valid json.");
+  }
+  if (!isRecord(data) || data.app !== "neonfocus" || !isInt(data.version, 0)) {
+    throw new Error("that isn't a neonfocus export.");
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error("that export comes from a newer version of the app.");
+  }
+
+  const rawLogs: unknown[] = Array.isArray(data.logs) ? data.logs : [];
+  const rawJournals: unknown[] = Array.isArray(data.journals) ? data.journals : [];
+  const logs = rawLogs.map(readImportedLog).filter((l): l is WorkLog => l !== null);
+  const journals = rawJournals
+    .map(readImportedJournal)
+    .filter((j): j is DailyJournal => j !== null);
+  const rawTasks: unknown[] = Array.isArray(data.tasks) ? data.tasks : [];
+  const tasks = rawTasks.map(readImportedTask).filter((t): t is Task => t !== null);
+
+  return {
+    logs,
+    journals,
+    tasks,
+    settings: readImportedSettings(data.settings),
+    invalid:
+      rawLogs.length - logs.length +
+      rawJournals.length - journals.length +
+      rawTasks.length - tasks.length,
+  };
+};
+
+// Writes whatever isn't there yet: logs and tasks are matched by id, journals
+// by date, and on a match the existing record is kept.
+const importRecords = async (storage: StorageBackend, parsed: ParsedImport) => {
+  const [logs, journals, tasks] = await Promise.all([
+    storage.getLogs(),
+    storage.getJournals(),
+    storage.getTasks(),
+  ]);
+  const logIds = new Set(logs.map((l) => l.id));
+  const journalDates = new Set(journals.map((j) => j.date));
+  const taskIds = new Set(tasks.map((t) => t.id));
+
+  // add() returns the set, so repeats within the file are dropped too
+  const newLogs = parsed.logs.filter((l) => !logIds.has(l.id) && logIds.add(l.id));
+  const newJournals = parsed.journals.filter(
+    (j) => !journalDates.has(j.date) && journalDates.add(j.date)
+  );
+  const newTasks = parsed.tasks.filter((t) => !taskIds.has(t.id) && taskIds.add(t.id));
+
+  await Promise.all([
+    ...newLogs.map((l) => storage.saveLog(l)),
+    ...newJournals.map((j) => storage.saveJournal(j)),
+    ...newTasks.map((t) => storage.saveTask(t)),
+  ]);
+
+  return { logs: newLogs.length, journals: newJournals.length, tasks: newTasks.length };
+};
+
+// ---------------------------------------------------------
+// GOALS
+// ---------------------------------------------------------
+
+interface DailyGoal {
+  seconds: number; // 0 on rest days
+  label: string;
+}
+
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const isRestDay = (goals: GoalSettings, key: string) => goals.weekdayHours[weekdayOf(key)] === 0;
+
+// `daysActive` is 1 on the first day
+const dailyGoal = (goals: GoalSettings, key: string, daysActive: number): DailyGoal => {
+  const weekday = weekdayOf(key);
+  const fullHours = goals.weekdayHours[weekday];
+  if (fullHours === 0) return { seconds: 0, label: `${WEEKDAY_NAMES[weekday]} rest day` };
+
+  if (goals.rampUp && daysActive <= goals.rampDays && goals.rampStartHours < fullHours) {
+    const progress = (daysActive - 1) / goals.rampDays;
+    const hours = goals.rampStartHours + (fullHours - goals.rampStartHours) * progress;
+    const seconds = Math.round((hours * 3600) / 60) * 60;
+    return {
+      seconds,
+      label: `ramp-up day ${daysActive} of ${goals.rampDays} (${formatDuration(seconds)})`,
+    };
+  }
+
+  const seconds = fullHours * 3600;
+  return { seconds, label: `${WEEKDAY_NAMES[weekday]} goal (${formatDuration(seconds)})` };
+};
+
+// ---------------------------------------------------------
+// STREAKS
+// ---------------------------------------------------------
+
+// a journal rated this or higher keeps the streak going; see computeStreaks
+const STREAK_MIN_RATING = 3;
+
 // ---------------------------------------------------------
 // STAR RATING COMPONENT
 // ---------------------------------------------------------
@@ -122,13 +1072,81 @@ const StarRating = ({ rating }: { rating: number }) => (
       <i
         key={star}
         className={`fas fa-star text-xl ${
-          star <= rating ? "text-[#ff10f0]" : "text-[#f0f0f0]"
+          star <= rating ? "text-primary" : "text-fg"
         }`}
       ></i>
     ))}
   </div>
 );
 
+// ---------------------------------------------------------
+// ROUTING
+// ---------------------------------------------------------
+
+type ChartRange = "week" | "month";
+
+// /timer, /tasks, /room, /room/:code, /team, /team/:code, /journal, /journal/:date, /journals,
+// /progress?range=week|month, /history, /settings. "/" and anything unknown is the timer.
+interface Route {
+  view: View;
+  date?: string; // journal only; absent (or not in the past) means today
+  range?: ChartRange; // progress only
+  invite?: string; // room and team only; a code shared as a link
+}
+
+const VIEWS: View[] = ["timer", "tasks", "room", "team", "journal", "journals", "progress", "history", "settings"];
+
+const parseRoute = (pathname: string, search: string): Route => {
+  const [first, second] = pathname.split("/").filter(Boolean);
+  const view = VIEWS.find((v) => v === first) ?? "timer";
+
+  // App only honours past days, which depends on the user's calendar
+  if (view === "journal" && second && isDayKey(second)) return { view, date: second };
+  if ((view === "room" || view === "team") && second) {
+    const invite = normaliseInviteCode(second);
+    if (invite) return { view, invite };
+  }
+  if (view === "progress") {
+    const range = new URLSearchParams(search).get("range");
+    if (range === "week" || range === "month") return { view, range };
+  }
+  return { view };
+};
+
+const routePath = (route: Route) => {
+  if (route.view === "journal" && route.date) return `/journal/${route.date}`;
+  if (route.view === "progress" && route.range) return `/progress?range=${route.range}`;
+  if ((route.view === "room" || route.view === "team") && route.invite) {
+    return `/${route.view}/${route.invite}`;
+  }
+  return `/${route.view}`;
+};
+
+// the current route plus a navigate() that pushes it onto the history
+const useRoute = () => {
+  const read = () => parseRoute(window.location.pathname, window.location.search);
+  const [route, setRoute] = useState<Route>(read);
+
+  useEffect(() => {
+    const onPop = () => setRoute(read());
+    window.addEventListener("popstate", onPop);
+    // normalise "/" and unknown paths without adding a history entry
+    window.history.replaceState(null, "", routePath(read()));
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+
+  const navigate = (next: Route, replace = false) => {
+    const path = routePath(next);
+    if (path !== window.location.pathname + window.location.search) {
+      if (replace) window.history.replaceState(null, "", path);
+      else window.history.pushState(null, "", path);
+    }
+    setRoute(next);
+  };
+
+  return [route, navigate] as const;
+};
+
 // ---------------------------------------------------------
 // SIDEBAR
 // ---------------------------------------------------------
@@ -152,45 +1170,55 @@ const Sidebar = ({
 }) => {
   const menuItems = [
     { id: "timer", label: "timer", icon: "fa-clock" },
+    { id: "tasks", label: "tasks", icon: "fa-list-check" },
+    { id: "room", label: "room", icon: "fa-users" },
+    { id: "team", label: "team", icon: "fa-trophy" },
     { id: "journal", label: "end of day", icon: "fa-pen-to-square" },
+    { id: "journals", label: "journal history", icon: "fa-book" },
     { id: "progress", label: "progress", icon: "fa-chart-line" },
+    { id: "history", label: "history", icon: "fa-list" },
+    { id: "settings", label: "settings", icon: "fa-gear" },
   ] as const;
 
   return (
     <div
-      className={`fixed top-0 left-0 h-full bg-[#000] z-40 transition-transform duration-300 border-r border-[#f0f0f0] ${
+      className={`fixed top-0 left-0 h-full bg-page z-40 transition-transform duration-300 border-r border-fg ${
         isOpen ? "translate-x-0" : "-translate-x-full"
       } w-64 flex flex-col justify-between`}
     >
       <div className="p-6 pt-20">
-        <h2 className="text-3xl mb-8 text-[#f0f0f0] font-light">dashboard</h2>
+        <h2 className="text-3xl mb-8 text-fg font-light">dashboard</h2>
         <nav className="flex flex-col space-y-4">
           {menuItems.map((item) => (
-            <button
+            <a
               key={item.id}
-              onClick={() => {
+              href={routePath({ view: item.id })}
+              onClick={(e) => {
+                // let ctrl/middle clicks open a new tab
+                if (e.ctrlKey || e.metaKey || e.shiftKey || e.button !== 0) return;
+                e.preventDefault();
                 setView(item.id);
                 if (window.innerWidth < 768) closeSidebar();
               }}
               className={`flex items-center space-x-4 p-3 rounded transition-all ${
                 currentView === item.id
-                  ? "bg-[#ff10f0] text-black"
-                  : "text-[#f0f0f0] hover:bg-[#111]"
+                  ? "bg-primary text-page"
+                  : "text-fg hover:bg-faint"
               }`}
             >
               <i className={`fas ${item.icon} w-6`}></i>
               <span className="text-xl">{item.label}</span>
-            </button>
+            </a>
           ))}
         </nav>
       </div>
 
       {/* Login section */}
-      <div className="p-6 border-t border-[#f0f0f0]">
+      <div className="p-6 border-t border-fg">
         {user ? (
           <div className="flex flex-col space-y-4">
-            <div className="flex items-center space-x-3 text-[#f0f0f0]">
-              <div className="w-8 h-8 bg-[#111] border border-[#f0f0f0] rounded-full overflow-hidden flex items-center justify-center">
+            <div className="flex items-center space-x-3 text-fg">
+              <div className="w-8 h-8 bg-faint border border-fg rounded-full overflow-hidden flex items-center justify-center">
                 {user.photoURL ? (
                   <img src={user.photoURL} className="w-full h-full" />
                 ) : (
@@ -205,17 +1233,17 @@ const Sidebar = ({
 
             <button
               onClick={handleLogout}
-              className="w-full border border-[#f0f0f0] text-[#f0f0f0] py-2 hover:bg-[#111]"
+              className="w-full border border-fg text-fg py-2 hover:bg-faint"
             >
               logout
             </button>
           </div>
         ) : (
           <div className="text-center">
-            <p className="text-[#f0f0f0] mb-3 text-sm">login to save progress</p>
+            <p className="text-fg mb-3 text-sm">saved on this device · login to sync</p>
             <button
               onClick={handleLogin}
-              className="w-full bg-[#f0f0f0] text-black py-2 hover:bg-[#e0e0e0]"
+              className="w-full bg-fg text-page py-2 hover:bg-fg/90"
             >
               login with google
             </button>
@@ -227,299 +1255,3374 @@ const Sidebar = ({
 };
 
 // ---------------------------------------------------------
-// TIMER VIEW
+// ALERTS
 // ---------------------------------------------------------
 
-// TimerView - replace your existing TimerView component with this exact block
-const TimerView = ({ addWorkLog }: { addWorkLog: (seconds: number) => void }) => {
-    const [timeLeft, setTimeLeft] = useState<number>(25 * 60);
-    const [isActive, setIsActive] = useState<boolean>(false);
-    const [mode, setMode] = useState<"focus" | "short" | "long">("focus");
-    const [showMeow, setShowMeow] = useState<boolean>(false);
-  
-    // single source of truth for durations
-    const secondsForMode = (m: "focus" | "short" | "long") =>
-      m === "focus" ? 25 * 60 : m === "short" ? 5 * 60 : 15 * 60;
-  
-    // unified mode setter - sets mode and immediately sets timeLeft to correct seconds
-    const setTimerMode = (newMode: "focus" | "short" | "long") => {
-      setIsActive(false);
-      setShowMeow(false);
-      setMode(newMode);
-      setTimeLeft(secondsForMode(newMode));
-    };
-  
-    // reset using current mode (safe because we use secondsForMode)
-    const resetTimer = () => {
-      setIsActive(false);
-      setShowMeow(false);
-      setTimeLeft(secondsForMode(mode));
-    };
-  
-    // main timer effect
-    useEffect(() => {
-      let interval: number | null = null;
-      if (isActive && timeLeft > 0) {
-        interval = window.setInterval(() => {
-          setTimeLeft((prev) => prev - 1);
-        }, 1000);
-      } else if (isActive && timeLeft === 0) {
-        // finished
-        setIsActive(false);
-        setShowMeow(true);
-        if (mode === "focus") {
-          // record work only for focus sessions
-          addWorkLog(secondsForMode("focus"));
-          const audio = new Audio(
-            "https://actions.google.com/sounds/v1/alarms/beep_short.ogg"
-          );
-          audio.play().catch(() => {});
-        }
-      }
-      return () => {
-        if (interval) clearInterval(interval);
-      };
-    }, [isActive, timeLeft, mode, addWorkLog]);
-  
-    const toggleTimer = () => {
-      setShowMeow(false);
-      setIsActive((s) => !s);
-    };
-  
-    return (
-      <div className="flex flex-col items-center justify-evenly h-[calc(100vh-6rem)] p-4 relative overflow-hidden">
-        {/* Mode Selectors */}
-        <div className="flex space-x-4 z-10">
-          {(["focus", "short", "long"] as const).map((m) => (
-            <button
-              key={m}
-              onClick={() => setTimerMode(m)}
-              className={`px-6 py-2 text-xl border transition-all ${
-                mode === m
-                  ? "border-[#ff10f0] bg-[#ff10f0] text-black"
-                  : "border-[#f0f0f0] text-[#f0f0f0] hover:border-[#ff10f0] hover:text-[#ff10f0]"
-              }`}
-            >
-              {m === "focus" ? "work" : m === "short" ? "break" : "long break"}
-              <span className="ml-2 text-sm text-[#f0f0f0] opacity-60">
-                ({Math.floor(secondsForMode(m) / 60)}m)
-              </span>
-            </button>
-          ))}
-        </div>
-  
-        {/* Timer Display */}
-        <div className="text-center z-10 relative">
+// Sounds are synthesized rather than fetched, so they work offline.
+interface Tone {
+  freq: number;
+  at: number; // seconds from the start of the sound
+  length: number;
+  type: OscillatorType;
+  slideTo?: number; // glide to this frequency over the tone
+}
+
+const SOUNDS: Record<SoundId, { label: string; tones: Tone[] }> = {
+  chime: {
+    label: "chime",
+    tones: [
+      { freq: 880, at: 0, length: 0.6, type: "sine" },
+      { freq: 1320, at: 0.25, length: 0.9, type: "sine" },
+    ],
+  },
+  bell: {
+    label: "bell",
+    tones: [
+      { freq: 660, at: 0, length: 1.8, type: "triangle" },
+      { freq: 1650, at: 0, length: 0.8, type: "sine" },
+    ],
+  },
+  beep: {
+    label: "beep",
+    tones: [0, 0.25, 0.5].map((at) => ({ freq: 1000, at, length: 0.15, type: "square" as const })),
+  },
+  meow: {
+    label: "meow",
+    tones: [{ freq: 520, at: 0, length: 0.6, type: "sawtooth", slideTo: 760 }],
+  },
+};
+
+let audioCtx: AudioContext | null = null;
+
+// Browsers only let an AudioContext start from a user gesture, so this runs
+// when a session is started and the finished sound can play in the background.
+const unlockAudio = () => {
+  if (typeof AudioContext === "undefined") return null;
+  audioCtx ??= new AudioContext();
+  if (audioCtx.state === "suspended") audioCtx.resume().catch(() => {});
+  return audioCtx;
+};
+
+const playSound = (id: SoundId | "none", volume: number) => {
+  const ctx = unlockAudio();
+  if (!ctx || id === "none" || volume <= 0) return;
+
+  const peak = (volume / 100) * 0.4;
+  const start = ctx.currentTime + 0.02;
+  for (const tone of SOUNDS[id].tones) {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const t = start + tone.at;
+    osc.type = tone.type;
+    osc.frequency.setValueAtTime(tone.freq, t);
+    if (tone.slideTo) osc.frequency.linearRampToValueAtTime(tone.slideTo, t + tone.length);
+    gain.gain.setValueAtTime(peak, t);
+    gain.gain.exponentialRampToValueAtTime(0.0001, t + tone.length);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(t);
+    osc.stop(t + tone.length);
+  }
+};
+
+const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+// resolves to whether notifications may be shown
+const requestNotifications = async () => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === "granted") return true;
+  if (Notification.permission === "denied") return false;
+  return (await Notification.requestPermission()) === "granted";
+};
+
+// read out by the timers' live regions when a session ends
+const sessionEndMessage = (finished: TimerMode) =>
+  finished === "focus" ? "focus session done. time for a break." : "break's over. back to work.";
+
+const announceSessionEnd = (alerts: AlertSettings, finished: TimerMode) => {
+  const isFocus = finished === "focus";
+  playSound(isFocus ? alerts.focusSound : alerts.breakSound, alerts.volume);
+
+  const notify = isFocus ? alerts.notifyFocus : alerts.notifyBreak;
+  if (notify && document.hidden && notificationsSupported() && Notification.permission === "granted") {
+    new Notification(isFocus ? "focus session done" : "break's over", {
+      body: isFocus ? "meow. time for a break." : "back to work.",
+      tag: "neonfocus-timer",
+    });
+  }
+};
+
+// ---------------------------------------------------------
+// FOCUS TIMER
+// ---------------------------------------------------------
+
+// Persisted timer state. Everything is wall-clock based so throttled
+// background tabs, reloads and a sleeping laptop can't make a session drift.
+interface TimerState {
+  mode: TimerMode;
+  durationSeconds: number;
+  startedAt: number | null; // null until the session is first started
+  pausedAt: number | null; // set while paused
+  pausedMs: number; // total time spent paused before pausedAt
+  focusCount: number; // focus sessions finished in the current long-break cycle
+  project: string | null; // what the time goes to, kept across sessions
+  taskId: string | null; // the active Task, kept across sessions
+  interruptions: Interruption[]; // logged during this session
+  pauses: PauseSpan[]; // finished pauses of this session
+}
+
+const TIMER_KEY = "neonfocus:timer";
+
+// what a fresh session inherits from the one before it
+type TimerCarry = Pick<TimerState, "focusCount" | "project" | "taskId">;
+
+const idleTimer = (mode: TimerMode, timer: TimerSettings, carry: TimerCarry): TimerState => ({
+  mode,
+  durationSeconds: durationForMode(timer, mode),
+  startedAt: null,
+  pausedAt: null,
+  pausedMs: 0,
+  focusCount: carry.focusCount,
+  project: carry.project,
+  taskId: carry.taskId,
+  interruptions: [],
+  pauses: [],
+});
+
+const elapsedMs = (t: Pick<TimerState, "startedAt" | "pausedAt" | "pausedMs">, now: number) =>
+  t.startedAt === null ? 0 : (t.pausedAt ?? now) - t.startedAt - t.pausedMs;
+
+const useFocusTimer = (
+  timerSettings: TimerSettings,
+  alerts: AlertSettings,
+  onFocusLogged: (entry: NewWorkLog) => void
+) => {
+  const [state, setState] = useState<TimerState>(() => ({
+    ...idleTimer("focus", timerSettings, { focusCount: 0, project: null, taskId: null }),
+    ...readLocal<Partial<TimerState>>(TIMER_KEY, {}),
+  }));
+  const [now, setNow] = useState(Date.now());
+  const [showMeow, setShowMeow] = useState<boolean>(false);
+  const [announcement, setAnnouncement] = useState("");
+
+  const isActive = state.startedAt !== null && state.pausedAt === null;
+  const elapsed = elapsedMs(state, now);
+  const timeLeft = Math.max(0, Math.ceil((state.durationSeconds * 1000 - elapsed) / 1000));
+
+  useEffect(() => {
+    writeLocal(TIMER_KEY, state);
+  }, [state]);
+
+  // Follow the timer in other tabs (and the installed app), so a session
+  // started, paused or finished in one shows the same everywhere.
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== TIMER_KEY || !e.newValue) return;
+      const raw = e.newValue;
+      let theirs: Partial<TimerState>;
+      try {
+        theirs = JSON.parse(raw);
+      } catch {
+        return;
+      }
+      setNow(Date.now());
+      setState((t) => (JSON.stringify(t) === raw ? t : { ...t, ...theirs }));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  // the interval only triggers a re-render; the time itself comes from the clock
+  useEffect(() => {
+    if (!isActive) return;
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = window.setInterval(tick, 250);
+    document.addEventListener("visibilitychange", tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [isActive]);
+
+  // pick up edited durations, but never under a session that has started
+  useEffect(() => {
+    setState((t) => (t.startedAt === null ? idleTimer(t.mode, timerSettings, t) : t));
+  }, [timerSettings]);
+
+  // what comes after the session that just ended
+  const nextMode = (finished: TimerMode, completedFocus: number): TimerMode => {
+    if (finished !== "focus") return "focus";
+    return completedFocus % timerSettings.longBreakEvery === 0 ? "long" : "short";
+  };
+
+  // finished
+  useEffect(() => {
+    if (!isActive || timeLeft > 0 || state.startedAt === null) return;
+
+    const endedAt = state.startedAt + state.pausedMs + state.durationSeconds * 1000;
+    let completed = state.focusCount;
+    if (state.mode === "focus") {
+      // record work only for focus sessions
+      onFocusLogged({
+        id: `focus-${state.startedAt}`,
+        timestamp: endedAt,
+        durationSeconds: state.durationSeconds,
+        status: "completed",
+        project: state.project ?? undefined,
+        taskId: state.taskId ?? undefined,
+        interruptions: state.interruptions,
+        pauses: state.pauses,
+      });
+      completed = state.focusCount + 1;
+    } else if (state.mode === "long") {
+      completed = 0;
+    }
+    announceSessionEnd(alerts, state.mode);
+    setAnnouncement(sessionEndMessage(state.mode));
+
+    if (timerSettings.autoAdvance) {
+      setShowMeow(false);
+      setState({
+        ...idleTimer(nextMode(state.mode, completed), timerSettings, {
+          ...state,
+          focusCount: completed,
+        }),
+        startedAt: Date.now(),
+      });
+    } else {
+      setShowMeow(true);
+      setState(idleTimer(state.mode, timerSettings, { ...state, focusCount: completed }));
+    }
+  }, [isActive, timeLeft]);
+
+  // a focus session thrown away mid-way can still keep the time worked so far
+  const offerPartialLog = () => {
+    if (state.mode !== "focus" || state.startedAt === null) return;
+    const seconds = Math.floor(elapsedMs(state, Date.now()) / 1000);
+    if (seconds < 60) return;
+    if (confirm(`save ${Math.floor(seconds / 60)} minutes of work from this session?`)) {
+      const at = Date.now();
+      onFocusLogged({
+        timestamp: at,
+        durationSeconds: seconds,
+        status: "interrupted",
+        project: state.project ?? undefined,
+        taskId: state.taskId ?? undefined,
+        interruptions: state.interruptions,
+        // a pause still open when the session is dropped ends with it
+        pauses:
+          state.pausedAt === null
+            ? state.pauses
+            : [...state.pauses, { pausedAt: state.pausedAt, resumedAt: at }],
+      });
+    }
+  };
+
+  // unified mode setter - switches mode and loads its full duration
+  const setTimerMode = (newMode: TimerMode) => {
+    offerPartialLog();
+    setShowMeow(false);
+    setState((t) => idleTimer(newMode, timerSettings, t));
+  };
+
+  const resetTimer = () => {
+    offerPartialLog();
+    setShowMeow(false);
+    setState((t) => idleTimer(t.mode, timerSettings, t));
+  };
+
+  const setProject = (project: string | null) => setState((t) => ({ ...t, project }));
+
+  const setTaskId = (taskId: string | null) => setState((t) => ({ ...t, taskId }));
+
+  // only focus sessions that have started can be interrupted
+  const canInterrupt = state.mode === "focus" && state.startedAt !== null;
+
+  const logInterruption = (kind: InterruptionKind, note?: string) =>
+    setState((t) =>
+      t.mode === "focus" && t.startedAt !== null
+        ? { ...t, interruptions: [...t.interruptions, { at: Date.now(), kind, note: note || undefined }] }
+        : t
+    );
+
+  const toggleTimer = () => {
+    setShowMeow(false);
+    // cleared so the same message is announced again next time
+    setAnnouncement("");
+    unlockAudio();
+    const at = Date.now();
+    setNow(at);
+    setState((t) => {
+      if (t.startedAt === null) return { ...t, startedAt: at };
+      if (t.pausedAt === null) return { ...t, pausedAt: at };
+      return {
+        ...t,
+        pausedMs: t.pausedMs + (at - t.pausedAt),
+        pausedAt: null,
+        pauses: [...t.pauses, { pausedAt: t.pausedAt, resumedAt: at }],
+      };
+    });
+  };
+
+  return {
+    mode: state.mode,
+    durationSeconds: state.durationSeconds,
+    focusCount: state.focusCount,
+    project: state.project,
+    taskId: state.taskId,
+    interruptions: state.interruptions,
+    canInterrupt,
+    timeLeft,
+    isActive,
+    showMeow,
+    announcement,
+    setTimerMode,
+    resetTimer,
+    toggleTimer,
+    setProject,
+    setTaskId,
+    logInterruption,
+  };
+};
+
+type FocusTimer = ReturnType<typeof useFocusTimer>;
+
+// ---------------------------------------------------------
+// TEAM ROOMS
+// ---------------------------------------------------------
+
+// A room is one timer shared at rooms/{code}. Any member can drive it, and
+// each member logs the focus sessions they sat through to their own logs.
+// Its times are firestore's clock, not whichever device wrote them.
+type RoomTimer = Pick<
+  TimerState,
+  "mode" | "durationSeconds" | "startedAt" | "pausedAt" | "pausedMs" | "focusCount"
+>;
+
+interface Room {
+  code: string;
+  createdBy: string;
+  createdAt: number;
+  settings: TimerSettings; // copied from whoever opened the room
+  timer: RoomTimer;
+}
+
+interface RoomMember {
+  uid: string;
+  name: string;
+  joinedAt: number;
+  lastSeen: number; // heartbeat while the app is open and visible
+  project: string | null;
+  clock?: Timestamp; // server time of the last heartbeat, to measure our clock against
+}
+
+type MemberStatus = "focusing" | "on break" | "paused" | "idle" | "away";
+
+const ROOM_KEY = "neonfocus:room";
+const ROOM_LOGGED_KEY = "neonfocus:room-logged"; // last room session logged here
+const INVITE_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I mix-ups
+const HEARTBEAT_MS = 60 * 1000;
+const AWAY_AFTER_MS = 3 * HEARTBEAT_MS;
+const CLOCK_SLACK_MS = 2000; // what's left of a session when it's moved on still counts as done
+
+const newInviteCode = () =>
+  Array.from(
+    { length: 6 },
+    () => INVITE_CODE_CHARS[Math.floor(Math.random() * INVITE_CODE_CHARS.length)]
+  ).join("");
+
+const normaliseInviteCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const roomRef = (code: string) => doc(db, "rooms", code);
+
+const memberRef = (code: string, uid: string) => doc(db, "rooms", code, "members", uid);
+
+const idleRoomTimer = (mode: TimerMode, settings: TimerSettings, focusCount: number): RoomTimer => ({
+  mode,
+  durationSeconds: durationForMode(settings, mode),
+  startedAt: null,
+  pausedAt: null,
+  pausedMs: 0,
+  focusCount,
+});
+
+// same cycle as the personal timer
+const nextRoomTimer = (t: RoomTimer, settings: TimerSettings, now: number): RoomTimer => {
+  const completed = t.mode === "focus" ? t.focusCount + 1 : t.mode === "long" ? 0 : t.focusCount;
+  if (!settings.autoAdvance) return idleRoomTimer(t.mode, settings, completed);
+  const next: TimerMode =
+    t.mode !== "focus" ? "focus" : completed % settings.longBreakEvery === 0 ? "long" : "short";
+  return { ...idleRoomTimer(next, settings, completed), startedAt: now };
+};
+
+const roomSessionEnd = (t: RoomTimer) =>
+  t.startedAt === null ? null : t.startedAt + t.pausedMs + t.durationSeconds * 1000;
+
+const memberStatus = (m: RoomMember, t: RoomTimer, now: number): MemberStatus => {
+  if (now - m.lastSeen > AWAY_AFTER_MS) return "away";
+  if (t.startedAt === null) return "idle";
+  if (t.pausedAt !== null) return "paused";
+  return t.mode === "focus" ? "focusing" : "on break";
+};
+
+const memberFor = (user: FirebaseUser, project: string | null, joinedAt: number): RoomMember => ({
+  uid: user.uid,
+  name: user.displayName || user.email || "anonymous",
+  joinedAt,
+  lastSeen: Date.now(),
+  project,
+});
+
+// a fresh code is retried on the off chance it is taken
+const createRoom = async (user: FirebaseUser, settings: TimerSettings) => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = newInviteCode();
+    const created = await runTransaction(db, async (tx) => {
+      if ((await tx.get(roomRef(code))).exists()) return false;
+      const room: Room = {
+        code,
+        createdBy: user.uid,
+        createdAt: Date.now(),
+        settings,
+        timer: idleRoomTimer("focus", settings, 0),
+      };
+      tx.set(roomRef(code), room);
+      return true;
+    });
+    if (created) return code;
+  }
+  throw new Error("no free room code");
+};
+
+// resolves to false when there is no room with that code
+const joinRoom = async (code: string, member: RoomMember) => {
+  const room = await getDoc(roomRef(code));
+  if (!room.exists()) return false;
+  await setDoc(memberRef(code, member.uid), member);
+  return true;
+};
+
+// Reads the latest timer and writes change(timer) back in one transaction, so
+// two members pressing start at once can't undo each other. null leaves it be.
+const updateRoomTimer = (code: string, change: (t: RoomTimer, room: Room) => RoomTimer | null) =>
+  runTransaction(db, async (tx) => {
+    const snap = await tx.get(roomRef(code));
+    if (!snap.exists()) return;
+    const room = snap.data() as Room;
+    const next = change(room.timer, room);
+    if (next) tx.update(roomRef(code), { timer: next });
+  });
+
+const useRoom = (
+  user: FirebaseUser | null,
+  project: string | null,
+  timerSettings: TimerSettings,
+  alerts: AlertSettings,
+  onFocusLogged: (entry: NewWorkLog) => void
+) => {
+  const [code, setCode] = useState<string | null>(() => readLocal<string | null>(ROOM_KEY, null));
+  const [room, setRoom] = useState<Room | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [missing, setMissing] = useState(false); // deleted, or never existed
+  const [now, setNow] = useState(Date.now());
+  const [announcement, setAnnouncement] = useState("");
+  // how far firestore's clock is ahead of ours, measured off each heartbeat
+  const clockOffset = useRef(0);
+  const beatSentAt = useRef<number | null>(null);
+  // the session last seen running, to notice it ending while our tick wasn't looking
+  const lastRunning = useRef<RoomTimer | null>(null);
+
+  const serverNow = () => Date.now() + clockOffset.current;
+
+  useEffect(() => {
+    writeLocal(ROOM_KEY, code);
+  }, [code]);
+
+  useEffect(() => {
+    setRoom(null);
+    setMembers([]);
+    setMissing(false);
+    lastRunning.current = null;
+    if (!code || !user) return;
+
+    const unsubRoom = onSnapshot(
+      roomRef(code),
+      (snap) => {
+        setRoom(snap.exists() ? (snap.data() as Room) : null);
+        setMissing(!snap.exists());
+      },
+      (err) => console.error("room subscription failed:", err)
+    );
+    const unsubMembers = onSnapshot(
+      collection(db, "rooms", code, "members"),
+      (snap) => {
+        const mine = snap.docs.find((d) => d.id === user.uid);
+        const clock = mine?.metadata.hasPendingWrites ? null : mine?.data().clock;
+        if (clock instanceof Timestamp && beatSentAt.current !== null) {
+          // the server stamped it somewhere between sending and hearing back
+          clockOffset.current = clock.toMillis() - (beatSentAt.current + Date.now()) / 2;
+          beatSentAt.current = null;
+        }
+        setMembers(
+          snap.docs.map((d) => d.data() as RoomMember).sort((a, b) => a.joinedAt - b.joinedAt)
+        );
+      },
+      (err) => console.error("room members subscription failed:", err)
+    );
+    return () => {
+      unsubRoom();
+      unsubMembers();
+    };
+  }, [code, user]);
+
+  // presence: a heartbeat while the app is visible, plus what we're working on
+  useEffect(() => {
+    if (!code || !user) return;
+    const beat = () => {
+      if (document.visibilityState !== "visible") return;
+      beatSentAt.current = Date.now();
+      setDoc(
+        memberRef(code, user.uid),
+        { lastSeen: Date.now(), project, clock: serverTimestamp() },
+        { merge: true }
+      ).catch((err) => console.error("room heartbeat failed:", err));
+    };
+    beat();
+    const interval = window.setInterval(beat, HEARTBEAT_MS);
+    document.addEventListener("visibilitychange", beat);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", beat);
+    };
+  }, [code, user, project]);
+
+  const timer = room?.timer ?? null;
+  const isActive = !!timer && timer.startedAt !== null && timer.pausedAt === null;
+  const timeLeft = timer
+    ? Math.max(0, Math.ceil((timer.durationSeconds * 1000 - elapsedMs(timer, now)) / 1000))
+    : 0;
+
+  useEffect(() => {
+    if (!isActive) return;
+    const tick = () => setNow(serverNow());
+    tick();
+    const interval = window.setInterval(tick, 250);
+    document.addEventListener("visibilitychange", tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [isActive]);
+
+  // Every member logs a session they sat through for themselves, once, however
+  // they found out it was over.
+  const finishSession = (t: RoomTimer) => {
+    const endedAt = roomSessionEnd(t);
+    if (!code || endedAt === null) return;
+    const session = `${code}:${t.startedAt}`;
+    const me = members.find((m) => m.uid === user?.uid);
+    if (readLocal<string | null>(ROOM_LOGGED_KEY, null) === session || !me || me.joinedAt >= endedAt) return;
+    writeLocal(ROOM_LOGGED_KEY, session);
+    if (t.mode === "focus") {
+      onFocusLogged({
+        id: `room-${code}-${t.startedAt}`,
+        timestamp: endedAt,
+        durationSeconds: t.durationSeconds,
+        status: "completed",
+        project: project ?? undefined,
+      });
+    }
+    announceSessionEnd(alerts, t.mode);
+    setAnnouncement(sessionEndMessage(t.mode));
+  };
+
+  // Whoever runs out first moves the room on, so ours may never reach zero: a
+  // faster clock elsewhere, or a background tab whose ticks are throttled. A
+  // running session that was replaced once its time was up still ended here.
+  useEffect(() => {
+    const last = lastRunning.current;
+    lastRunning.current = timer && timer.startedAt !== null ? timer : null;
+    const endedAt = last && last.pausedAt === null ? roomSessionEnd(last) : null;
+    if (!last || endedAt === null || timer?.startedAt === last.startedAt) return;
+    if ((timer?.startedAt ?? serverNow()) >= endedAt - CLOCK_SLACK_MS) finishSession(last);
+  }, [timer]);
+
+  useEffect(() => {
+    if (!code || !timer || !isActive || timeLeft > 0 || timer.startedAt === null) return;
+    const startedAt = timer.startedAt;
+    finishSession(timer);
+    updateRoomTimer(code, (t, r) =>
+      t.startedAt === startedAt ? nextRoomTimer(t, r.settings, serverNow()) : null
+    ).catch((err) => console.error("advancing the room failed:", err));
+  }, [isActive, timeLeft]);
+
+  const drive = (change: (t: RoomTimer, room: Room) => RoomTimer | null) => {
+    if (!code) return;
+    updateRoomTimer(code, change).catch((err) => {
+      console.error("room update failed:", err);
+      alert("couldn't reach the room. are you online?");
+    });
+  };
+
+  const toggle = () => {
+    setAnnouncement("");
+    unlockAudio();
+    const at = serverNow();
+    setNow(at);
+    drive((t) => {
+      if (t.startedAt === null) return { ...t, startedAt: at };
+      if (t.pausedAt === null) return { ...t, pausedAt: at };
+      return { ...t, pausedMs: t.pausedMs + (at - t.pausedAt), pausedAt: null };
+    });
+  };
+
+  const reset = () => drive((t, r) => idleRoomTimer(t.mode, r.settings, t.focusCount));
+
+  const setMode = (mode: TimerMode) => drive((t, r) => idleRoomTimer(mode, r.settings, t.focusCount));
+
+  const create = async () => {
+    if (!user) return;
+    try {
+      const next = await createRoom(user, timerSettings);
+      await joinRoom(next, memberFor(user, project, serverNow()));
+      setCode(next);
+    } catch (err) {
+      console.error("creating a room failed:", err);
+      alert("couldn't open a room. are you online?");
+    }
+  };
+
+  const join = async (input: string) => {
+    const next = normaliseInviteCode(input);
+    if (!user || !next) return;
+    try {
+      if (await joinRoom(next, memberFor(user, project, serverNow()))) setCode(next);
+      else alert(`there's no room ${next}.`);
+    } catch (err) {
+      console.error("joining a room failed:", err);
+      alert("couldn't join the room. are you online?");
+    }
+  };
+
+  const leave = async () => {
+    if (!code) return;
+    setCode(null);
+    if (!user) return;
+    try {
+      await deleteDoc(memberRef(code, user.uid));
+    } catch (err) {
+      console.error("leaving the room failed:", err);
+    }
+  };
+
+  return {
+    code,
+    room,
+    members,
+    missing,
+    timeLeft,
+    isActive,
+    announcement,
+    toggle,
+    reset,
+    setMode,
+    create,
+    join,
+    leave,
+  };
+};
+
+type TeamRoom = ReturnType<typeof useRoom>;
+
+// ---------------------------------------------------------
+// TEAMS
+// ---------------------------------------------------------
+
+// Opt-in teams at teams/{id}. Each member publishes weekly totals and streaks
+// to teams/{id}/members/{uid}; logs and journals never leave users/{uid}.
+interface Team {
+  id: string; // doubles as the invite code
+  name: string;
+  createdBy: string;
+  createdAt: number;
+}
+
+interface WeekAggregate {
+  seconds: number;
+  sessions: number;
+  daily: number[]; // seconds per weekday, sunday first
+}
+
+interface TeamMember {
+  uid: string;
+  name: string;
+  joinedAt: number;
+  updatedAt: number;
+  streak: number;
+  bestStreak: number;
+  weeks: Record<string, WeekAggregate>; // keyed by the week's sunday
+}
+
+type TeamStats = Pick<TeamMember, "weeks" | "streak" | "bestStreak">;
+
+const TEAM_WEEKS = 8; // how far back the weekly summary reaches; firestore.rules checks at most 8
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Team weeks always start on sunday so everyone's totals line up whatever
+// week start they picked; days still fall in each member's own time zone.
+const teamCalendar = (calendar: Calendar): Calendar => ({ ...calendar, weekStartsOn: 0 });
+
+const emptyWeek = (): WeekAggregate => ({ seconds: 0, sessions: 0, daily: new Array(7).fill(0) });
+
+// the last TEAM_WEEKS weeks of logs, this week included
+const weeklyAggregates = (logs: WorkLog[], calendar: Calendar, now = Date.now()) => {
+  const cal = teamCalendar(calendar);
+  const weeks: Record<string, WeekAggregate> = {};
+  const thisWeek = periodStart(todayKey(cal, now), "week", cal);
+  for (let i = 0; i < TEAM_WEEKS; i++) {
+    weeks[shiftDay(thisWeek, -7 * i)] = emptyWeek();
+  }
+  for (const l of logs) {
+    const key = dayKey(l.timestamp, cal);
+    const week = weeks[periodStart(key, "week", cal)];
+    if (!week) continue;
+    week.sessions += 1;
+    week.daily[weekdayOf(key)] += l.durationSeconds;
+  }
+  // firestore.rules caps these, so overlapping logs can't inflate the leaderboard
+  for (const week of Object.values(weeks)) {
+    week.daily = week.daily.map((s) => Math.min(s, DAY_SECONDS));
+    week.seconds = week.daily.reduce((a, b) => a + b, 0);
+    week.sessions = Math.min(week.sessions, 7 * 24 * 60); // one a minute
+  }
+  return weeks;
+};
+
+const teamRef = (id: string) => doc(db, "teams", id);
+
+const teamMemberRef = (id: string, uid: string) => doc(db, "teams", id, "members", uid);
+
+const createTeam = async (user: FirebaseUser, name: string) => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const id = newInviteCode();
+    const created = await runTransaction(db, async (tx) => {
+      if ((await tx.get(teamRef(id))).exists()) return false;
+      const team: Team = { id, name, createdBy: user.uid, createdAt: Date.now() };
+      tx.set(teamRef(id), team);
+      return true;
+    });
+    if (created) return id;
+  }
+  throw new Error("no free team code");
+};
+
+// resolves to false when there is no team with that code
+const joinTeam = async (id: string, user: FirebaseUser, stats: TeamStats) => {
+  const team = await getDoc(teamRef(id));
+  if (!team.exists()) return false;
+  const member: TeamMember = {
+    uid: user.uid,
+    name: user.displayName || user.email || "anonymous",
+    joinedAt: Date.now(),
+    updatedAt: Date.now(),
+    ...stats,
+  };
+  await setDoc(teamMemberRef(id, user.uid), member);
+  return true;
+};
+
+const leaveTeam = (id: string, uid: string) => deleteDoc(teamMemberRef(id, uid));
+
+// replaces the totals wholesale so weeks that rolled off don't linger
+const publishTeamStats = (id: string, uid: string, stats: TeamStats) =>
+  setDoc(
+    teamMemberRef(id, uid),
+    { ...stats, updatedAt: Date.now() },
+    { mergeFields: ["weeks", "streak", "bestStreak", "updatedAt"] }
+  );
+
+const useTeam = (id: string | null) => {
+  const [team, setTeam] = useState<Team | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+
+  useEffect(() => {
+    setTeam(null);
+    setMembers([]);
+    if (!id) return;
+
+    const unsubTeam = onSnapshot(
+      teamRef(id),
+      (snap) => setTeam(snap.exists() ? (snap.data() as Team) : null),
+      (err) => console.error("team subscription failed:", err)
+    );
+    const unsubMembers = onSnapshot(
+      collection(db, "teams", id, "members"),
+      (snap) => setMembers(snap.docs.map((d) => d.data() as TeamMember)),
+      (err) => console.error("team members subscription failed:", err)
+    );
+    return () => {
+      unsubTeam();
+      unsubMembers();
+    };
+  }, [id]);
+
+  return { team, members };
+};
+
+// ---------------------------------------------------------
+// LOG FORM
+// ---------------------------------------------------------
+
+const MAX_LOG_MINUTES = 12 * 60;
+
+// returns what's wrong with the input, or null when it can be saved
+const validateLogInput = (date: string, time: string, minutes: string, calendar: Calendar): string | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return "pick a date";
+  if (!/^\d{2}:\d{2}$/.test(time)) return "pick a time";
+  if (!/^\d+$/.test(minutes.trim())) return "minutes must be a whole number";
+  const m = parseInt(minutes);
+  if (m < 1 || m > MAX_LOG_MINUTES) return `minutes must be between 1 and ${MAX_LOG_MINUTES}`;
+  if (fromWallClock(date, time, calendar) > Date.now()) return "that time is in the future";
+  return null;
+};
+
+// Add (no `initial`) or edit a single log. The time is when the session ended,
+// matching what the timer records, on the clock of the user's calendar.
+const LogFormModal = ({
+  initial,
+  projects,
+  calendar,
+  defaultProject = null,
+  onSave,
+  onClose,
+}: {
+  initial?: WorkLog;
+  projects: string[];
+  calendar: Calendar;
+  defaultProject?: string | null;
+  onSave: (entry: NewWorkLog) => void;
+  onClose: () => void;
+}) => {
+  const at = initial?.timestamp ?? Date.now();
+  const initialDate = dayKey(at, calendar);
+  const initialTime = timeOf(at, calendar);
+  const [date, setDate] = useState(initialDate);
+  const [time, setTime] = useState(initialTime);
+  const initialMinutes = initial ? String(Math.round(initial.durationSeconds / 60)) : "";
+  const [minutes, setMinutes] = useState(initialMinutes);
+  const [project, setProject] = useState(initial ? initial.project ?? "" : defaultProject ?? "");
+
+  const error = validateLogInput(date, time, minutes, calendar);
+  const projectOptions = project && !projects.includes(project) ? [...projects, project] : projects;
+
+  const handleSave = () => {
+    if (error) return;
+    onSave({
+      // the fields show whole minutes, so only take them when they were edited
+      timestamp:
+        initial && date === initialDate && time === initialTime
+          ? initial.timestamp
+          : fromWallClock(date, time, calendar),
+      durationSeconds: initial && minutes === initialMinutes ? initial.durationSeconds : parseInt(minutes) * 60,
+      status: initial?.status ?? "manual",
+      project: project || undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-page/80 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-page border border-fg p-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-3xl mb-8 border-l-4 border-primary pl-4">
+          {initial ? "edit log" : "add log"}
+        </h2>
+
+        <div className="flex flex-col space-y-4 text-lg">
+          <label className="flex items-center justify-between">
+            <span>date</span>
+            <input
+              type="date"
+              value={date}
+              max={todayKey(calendar)}
+              onChange={(e) => setDate(e.target.value)}
+              className="bg-raised border border-fg p-2 focus:border-primary"
+            />
+          </label>
+          <label className="flex items-center justify-between">
+            <span>ended at</span>
+            <input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="bg-raised border border-fg p-2 focus:border-primary"
+            />
+          </label>
+          <label className="flex items-center justify-between">
+            <span>minutes</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_LOG_MINUTES}
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              className="w-28 bg-raised border border-fg p-2 text-right focus:border-primary"
+            />
+          </label>
+          <label className="flex items-center justify-between">
+            <span>project</span>
+            <select
+              value={project}
+              onChange={(e) => setProject(e.target.value)}
+              className="bg-page border border-fg p-2 focus:border-primary"
+            >
+              <option value="">no project</option>
+              {projectOptions.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <p className="h-6 mt-4 text-sm text-primary">{minutes && error}</p>
+
+        <div className="flex justify-end space-x-4 mt-4">
+          <button onClick={onClose} className="border border-fg px-6 py-2 hover:bg-faint">
+            cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!error}
+            className="bg-primary text-page px-8 py-2 disabled:opacity-20"
+          >
+            save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------
+// TIMER VIEW
+// ---------------------------------------------------------
+
+// TimerView - replace your existing TimerView component with this exact block
+const TimerView = ({
+  timer,
+  addWorkLog,
+  timerSettings,
+  projects,
+  tasks,
+  calendar,
+  suggestedTask,
+}: {
+  timer: FocusTimer;
+  addWorkLog: (entry: NewWorkLog) => void;
+  timerSettings: TimerSettings;
+  projects: string[];
+  tasks: Task[];
+  calendar: Calendar;
+  suggestedTask?: string;
+}) => {
+    const {
+      mode,
+      timeLeft,
+      isActive,
+      showMeow,
+      focusCount,
+      project,
+      taskId,
+      setTimerMode,
+      resetTimer,
+      toggleTimer,
+      setProject,
+      setTaskId,
+      interruptions,
+      canInterrupt,
+      logInterruption,
+    } = timer;
+
+    const openTasks = tasks.filter((t) => !t.completedAt || t.id === taskId);
+  
+    const [showLogForm, setShowLogForm] = useState<boolean>(false);
+    const [interruptionNote, setInterruptionNote] = useState("");
+
+    const interrupt = (kind: InterruptionKind) => {
+      logInterruption(kind, interruptionNote.trim());
+      setInterruptionNote("");
+    };
+  
+    // single source of truth for durations
+    const secondsForMode = (m: TimerMode) => durationForMode(timerSettings, m);
+  
+    return (
+      <div className="flex flex-col items-center justify-evenly h-[calc(100vh-6rem)] p-4 relative overflow-hidden">
+        {/* Mode Selectors */}
+        <div className="flex space-x-4 z-10">
+          {(["focus", "short", "long"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setTimerMode(m)}
+              className={`px-6 py-2 text-xl border transition-all ${
+                mode === m
+                  ? "border-primary bg-primary text-page"
+                  : "border-fg text-fg hover:border-primary hover:text-primary"
+              }`}
+            >
+              {m === "focus" ? "work" : m === "short" ? "break" : "long break"}
+              <span className="ml-2 text-sm text-fg opacity-60">
+                ({Math.floor(secondsForMode(m) / 60)}m)
+              </span>
+            </button>
+          ))}
+        </div>
+  
+        {/* Project (and yesterday's plan for the first session of the day) */}
+        <div className="z-10 flex flex-col items-center space-y-3 text-lg">
+          {suggestedTask && (
+            <p className="text-fg">
+              <span className="opacity-60">first up: </span>
+              <span className="text-primary">{suggestedTask}</span>
+            </p>
+          )}
+          <div className="flex items-center space-x-3">
+            <i className="fas fa-folder text-fg opacity-60"></i>
+            <select
+              value={project ?? ""}
+              onChange={(e) => setProject(e.target.value || null)}
+              className="bg-page border border-fg text-fg px-3 py-1 focus:border-primary"
+            >
+              <option value="">no project</option>
+              {/* keep a project that was removed from settings selectable until changed */}
+              {[...projects, ...(project && !projects.includes(project) ? [project] : [])].map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+          </div>
+          {openTasks.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <i className="fas fa-list-check text-fg opacity-60"></i>
+              <select
+                value={taskId ?? ""}
+                onChange={(e) => setTaskId(e.target.value || null)}
+                className="bg-page border border-fg text-fg px-3 py-1 focus:border-primary"
+              >
+                <option value="">no task</option>
+                {openTasks.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+  
+        {/* Timer Display */}
+        <div className="text-center z-10 relative">
           {showMeow ? (
-            <div className="animate-bounce">
-              <span className="text-8xl font-black text-[#ff10f0]">meow</span>
+            <div className="motion-safe:animate-bounce">
+              <span className="text-8xl font-black text-primary">meow</span>
+            </div>
+          ) : (
+            <div
+              role="timer"
+              className="text-9xl font-medium text-primary tabular-nums tracking-tight"
+              style={{ WebkitTextStroke: "2px rgb(var(--color-primary))" }}
+            >
+              {`${Math.floor(timeLeft / 60)
+                .toString()
+                .padStart(2, "0")}:${(timeLeft % 60).toString().padStart(2, "0")}`}
+            </div>
+          )}
+          <p className="mt-4 text-lg text-fg opacity-60">
+            {focusCount === 0 ? 0 : ((focusCount - 1) % timerSettings.longBreakEvery) + 1}/
+            {timerSettings.longBreakEvery} until long break
+          </p>
+        </div>
+  
+        {/* Progress Bar (keeps using timeLeft & the session's own length) */}
+        <div className="w-full max-w-2xl relative h-12 flex items-center justify-center">
+          <div className="w-full h-[1px] bg-fg absolute"></div>
+          <div className="absolute top-0 h-full w-full pointer-events-none">
+            <div
+              className="absolute top-1/2 -mt-4 transition-all duration-1000 ease-linear motion-reduce:transition-none flex flex-col items-center"
+              style={{
+                left: `calc(${((timer.durationSeconds - timeLeft) / timer.durationSeconds) * 100}% - 20px)`,
+              }}
+            >
+              <i className="fas fa-cat text-4xl text-fg" style={{ transform: "scaleX(-1)" }} aria-hidden="true"></i>
+            </div>
+          </div>
+        </div>
+  
+        {/* Controls */}
+        <div className="flex space-x-8 z-10">
+          <button
+            onClick={toggleTimer}
+            aria-label={isActive ? "pause" : "start"}
+            className="w-20 h-20 rounded-full bg-fg text-page flex items-center justify-center text-2xl hover:bg-primary motion-safe:hover:scale-105 transition-all"
+          >
+            <i className={`fas ${isActive ? "fa-pause" : "fa-play"}`}></i>
+          </button>
+  
+          <button
+            onClick={resetTimer}
+            aria-label="reset"
+            className="w-20 h-20 rounded-full border border-fg text-fg flex items-center justify-center text-xl hover:border-primary hover:text-primary transition-colors"
+          >
+            <i className="fas fa-redo"></i>
+          </button>
+        </div>
+  
+        {/* Interruptions (focus sessions only) */}
+        {canInterrupt && (
+          <div className="z-10 flex flex-col items-center space-y-3 text-lg">
+            <div className="flex items-center space-x-3">
+              <input
+                value={interruptionNote}
+                onChange={(e) => setInterruptionNote(e.target.value)}
+                placeholder="what pulled you away? (optional)"
+                className="bg-page border border-fg text-fg px-3 py-1 w-72 focus:border-primary"
+              />
+              {(["internal", "external"] as const).map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() => interrupt(kind)}
+                  title={kind === "internal" ? "your own urge to switch" : "someone or something else"}
+                  className="px-3 py-1 border border-fg text-fg hover:border-primary hover:text-primary"
+                >
+                  <i className={`fas ${kind === "internal" ? "fa-brain" : "fa-bell"} mr-2`}></i>
+                  {kind}
+                </button>
+              ))}
+            </div>
+            {interruptions.length > 0 && (
+              <p className="text-fg opacity-60">
+                {interruptions.filter((i) => i.kind === "internal").length} internal ·{" "}
+                {interruptions.filter((i) => i.kind === "external").length} external this session
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Manual Entry */}
+        <div className="text-center z-10">
+          <button
+            onClick={() => setShowLogForm(true)}
+            className="text-lg text-fg hover:text-primary transition-colors"
+          >
+            + add manual log
+          </button>
+        </div>
+
+        {showLogForm && (
+          <LogFormModal
+            projects={projects}
+            calendar={calendar}
+            defaultProject={project}
+            onSave={(entry) => {
+              addWorkLog(entry);
+              setShowLogForm(false);
+            }}
+            onClose={() => setShowLogForm(false)}
+          />
+        )}
+      </div>
+    );
+  };  
+
+// ---------------------------------------------------------
+// JOURNAL VIEW
+// ---------------------------------------------------------
+
+const ScorePicker = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (v: number | undefined) => void;
+}) => (
+  <div className="flex items-center justify-between bg-surface p-6 border border-fg">
+    <span className="text-xl">{label}</span>
+    <div className="flex space-x-2">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          onClick={() => onChange(value === n ? undefined : n)}
+          className={`w-10 h-10 border text-lg ${
+            value === n
+              ? "border-primary bg-primary text-page"
+              : "border-fg hover:border-primary"
+          }`}
+        >
+          {n}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const parseTags = (text: string) =>
+  [...new Set(text.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))];
+
+const JournalView = ({
+  date,
+  today,
+  secondsWorked,
+  goal,
+  prompts,
+  finishedTasks,
+  saveEntry,
+  existingEntry,
+  onBack,
+}: {
+  date: string;
+  today: string; // in the user's calendar
+  secondsWorked: number;
+  goal: DailyGoal;
+  prompts: JournalPrompt[];
+  finishedTasks: Task[];
+  saveEntry: (entry: DailyJournal) => void;
+  existingEntry: DailyJournal | undefined;
+  onBack?: () => void;
+}) => {
+  const [highlight, setHighlight] = useState(existingEntry?.highlight || "");
+  const [answers, setAnswers] = useState<Record<string, string>>(existingEntry?.answers ?? {});
+  const [tomorrow, setTomorrow] = useState(existingEntry?.tomorrow ?? "");
+  const [mood, setMood] = useState(existingEntry?.mood);
+  const [energy, setEnergy] = useState(existingEntry?.energy);
+  const [tagsText, setTagsText] = useState((existingEntry?.tags ?? []).join(", "));
+  const [submitted, setSubmitted] = useState(!!existingEntry);
+
+  // snapshots hand over fresh objects, so only react to real changes
+  useEffect(() => {
+    setHighlight(existingEntry?.highlight ?? "");
+    setAnswers(existingEntry?.answers ?? {});
+    setTomorrow(existingEntry?.tomorrow ?? "");
+    setMood(existingEntry?.mood);
+    setEnergy(existingEntry?.energy);
+    setTagsText((existingEntry?.tags ?? []).join(", "));
+    setSubmitted(!!existingEntry);
+  }, [date, JSON.stringify(existingEntry ?? null)]);
+
+  const isToday = date === today;
+  const backLink = onBack && (
+    <button onClick={onBack} className="text-lg mb-8 hover:text-primary">
+      <i className="fas fa-arrow-left mr-2"></i>journal history
+    </button>
+  );
+
+  const rating = ratingFor(secondsWorked, goal.seconds);
+
+  const finishedList = finishedTasks.length > 0 && (
+    <div className="text-left">
+      <p className="opacity-60 text-lg mb-2">tasks finished</p>
+      <ul className="text-lg">
+        {finishedTasks.map((t) => (
+          <li key={t.id}>
+            <i className="fas fa-check text-primary mr-2"></i>
+            {t.title}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const handleSubmit = () => {
+    // drop answers to prompts that were emptied or removed since
+    const keptAnswers = Object.fromEntries(
+      prompts.map((p) => [p.id, (answers[p.id] ?? "").trim()]).filter(([, a]) => a)
+    );
+    const tags = parseTags(tagsText);
+    saveEntry({
+      date,
+      highlight,
+      rating,
+      ...(Object.keys(keptAnswers).length ? { answers: keptAnswers } : {}),
+      ...(tomorrow.trim() ? { tomorrow: tomorrow.trim() } : {}),
+      ...(mood ? { mood } : {}),
+      ...(energy ? { energy } : {}),
+      ...(tags.length ? { tags } : {}),
+    });
+    setSubmitted(true);
+  };
+
+  if (submitted && existingEntry) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-6 text-center">
+        {backLink}
+        <h2 className="text-4xl text-primary mb-4">{isToday ? "day logged" : date}</h2>
+
+        <div className="text-8xl mb-6 text-fg font-black">
+          {existingEntry.rating}
+          <span className="text-4xl font-light">/5</span>
+        </div>
+
+        <StarRating rating={existingEntry.rating} />
+
+        <p className="mt-12 text-fg max-w-md italic text-2xl font-light">
+          "{existingEntry.highlight}"
+        </p>
+
+        <div className="mt-10 max-w-md w-full text-left flex flex-col space-y-4 text-lg">
+          {finishedList}
+          {prompts
+            .filter((p) => existingEntry.answers?.[p.id])
+            .map((p) => (
+              <div key={p.id}>
+                <p className="opacity-60">{p.question}</p>
+                <p>{existingEntry.answers![p.id]}</p>
+              </div>
+            ))}
+          {existingEntry.tomorrow && (
+            <div>
+              <p className="opacity-60">tomorrow's top task</p>
+              <p className="text-primary">{existingEntry.tomorrow}</p>
+            </div>
+          )}
+          {(existingEntry.mood || existingEntry.energy) && (
+            <p>
+              {existingEntry.mood && <span className="mr-6">mood {existingEntry.mood}/5</span>}
+              {existingEntry.energy && <span>energy {existingEntry.energy}/5</span>}
+            </p>
+          )}
+          {existingEntry.tags && (
+            <div className="flex flex-wrap gap-2">
+              {existingEntry.tags.map((t) => (
+                <span key={t} className="border border-fg px-3 py-1 text-sm">
+                  #{t}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => setSubmitted(false)}
+          className="mt-12 border border-fg px-8 py-2 text-lg hover:border-primary hover:text-primary"
+        >
+          edit
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto pt-10 p-6">
+      {backLink}
+      <h2 className="text-4xl mb-12 border-l-4 border-primary pl-6">
+        {isToday ? "end of day" : date}
+      </h2>
+
+      <div className="grid md:grid-cols-2 gap-6 mb-10">
+        <div className="bg-surface p-8 border border-fg">
+          <h3 className="text-lg mb-2">time worked</h3>
+          <p className="text-5xl font-light">{formatDuration(secondsWorked)}</p>
+        </div>
+
+        <div className="bg-surface p-8 border border-fg">
+          <h3 className="text-lg mb-2">target</h3>
+          <p className="text-5xl font-light">{formatDuration(goal.seconds)}</p>
+          <p className="text-lg mt-3">{goal.label}</p>
+        </div>
+      </div>
+
+      {finishedList && <div className="mb-10">{finishedList}</div>}
+
+      <textarea
+        className="w-full bg-raised border border-fg p-6 text-xl h-48 resize-none focus:border-primary"
+        placeholder={isToday ? "what did you achieve today?" : "what did you achieve that day?"}
+        value={highlight}
+        onChange={(e) => setHighlight(e.target.value)}
+      ></textarea>
+
+      <div className="flex flex-col space-y-4 mt-6">
+        {prompts.map((p) => (
+          <textarea
+            key={p.id}
+            className="w-full bg-raised border border-fg p-6 text-xl h-28 resize-none focus:border-primary"
+            placeholder={p.question}
+            value={answers[p.id] ?? ""}
+            onChange={(e) => setAnswers({ ...answers, [p.id]: e.target.value })}
+          ></textarea>
+        ))}
+        <input
+          className="w-full bg-raised border border-fg p-6 text-xl focus:border-primary"
+          placeholder="tomorrow's top task"
+          value={tomorrow}
+          onChange={(e) => setTomorrow(e.target.value)}
+        />
+        <ScorePicker label="mood" value={mood} onChange={setMood} />
+        <ScorePicker label="energy" value={energy} onChange={setEnergy} />
+        <input
+          className="w-full bg-raised border border-fg p-6 text-xl focus:border-primary"
+          placeholder="tags, comma separated"
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-between mt-10 border-t border-fg pt-8">
+        <div>
+          <p className="text-lg mb-2">{isToday ? "projected rating" : "rating"}</p>
+          <StarRating rating={rating} />
+          <p className="text-sm mt-3 opacity-60">
+            {goal.seconds === 0
+              ? "rest day: any work counts as 5"
+              : `${formatDuration(secondsWorked)} ÷ ${formatDuration(goal.seconds)} × 5, rounded, max 5`}
+          </p>
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={!highlight.trim()}
+          className="bg-primary text-page text-xl py-4 px-12 disabled:opacity-20"
+        >
+          {existingEntry ? "save" : "complete"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------
+// JOURNAL HISTORY VIEW
+// ---------------------------------------------------------
+
+const JournalHistoryView = ({
+  journals,
+  logs,
+  calendar,
+  openDay,
+}: {
+  journals: DailyJournal[];
+  logs: WorkLog[];
+  calendar: Calendar;
+  openDay: (date: string) => void;
+}) => {
+  const [search, setSearch] = useState("");
+  const [missedDay, setMissedDay] = useState("");
+
+  const today = todayKey(calendar);
+  const totalsByDay = dailyTotals(logs, calendar);
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = journals.filter((j) => {
+    const text = [j.highlight, ...Object.values(j.answers ?? {}), j.tomorrow ?? "", ...(j.tags ?? [])]
+      .join(" ")
+      .toLowerCase();
+    return terms.every((t) => text.includes(t));
+  });
+
+  return (
+    <div className="max-w-3xl mx-auto pt-10 p-6">
+      <h2 className="text-4xl mb-12 border-l-4 border-primary pl-6">
+        journal history
+      </h2>
+
+      <div className="flex flex-col md:flex-row gap-4 mb-10">
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="search entries"
+          className="flex-1 bg-raised border border-fg p-4 text-xl focus:border-primary"
+        />
+        <div className="flex">
+          <input
+            type="date"
+            value={missedDay}
+            max={today}
+            onChange={(e) => setMissedDay(e.target.value)}
+            className="bg-raised border border-fg p-4 text-lg focus:border-primary"
+          />
+          <button
+            onClick={() => openDay(missedDay)}
+            disabled={!missedDay || missedDay > today}
+            className="bg-primary text-page text-lg px-6 disabled:opacity-20"
+          >
+            write
+          </button>
+        </div>
+      </div>
+
+      {matches.length === 0 ? (
+        <p className="text-xl opacity-60">
+          {journals.length === 0 ? "no journal entries yet." : "nothing matches."}
+        </p>
+      ) : (
+        <div className="flex flex-col space-y-3">
+          {matches.map((j) => (
+            <button
+              key={j.date}
+              onClick={() => openDay(j.date)}
+              className="text-left bg-surface border border-fg p-5 hover:border-primary"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-xl">{j.date}</span>
+                <span className="text-lg opacity-60">{formatDuration(totalsByDay.get(j.date) ?? 0)}</span>
+              </div>
+              <StarRating rating={j.rating} />
+              <p className="mt-3 italic text-lg font-light">"{j.highlight}"</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------
+// CHARTS
+// ---------------------------------------------------------
+
+const WEEKDAY_LABELS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const primaryAlpha = (alpha: number) => `rgb(var(--color-primary) / ${alpha})`;
+
+// when a session really began: its end, minus the time run and the time paused
+const sessionStart = (l: WorkLog) =>
+  l.timestamp -
+  l.durationSeconds * 1000 -
+  (l.pauses ?? []).reduce((a, p) => a + p.resumedAt - p.pausedAt, 0);
+
+interface InterruptionTally {
+  sessions: number;
+  internal: number;
+  external: number;
+}
+
+// Interruptions per group of sessions. Only logs that tracked interruptions
+// count, so manual entries and older sessions don't dilute the rate.
+const interruptionTallies = (logs: WorkLog[], groupOf: (l: WorkLog) => string) => {
+  const tallies = new Map<string, InterruptionTally>();
+  for (const l of logs) {
+    if (!l.interruptions) continue;
+    const key = groupOf(l);
+    const t = tallies.get(key) ?? { sessions: 0, internal: 0, external: 0 };
+    t.sessions += 1;
+    for (const i of l.interruptions) t[i.kind] += 1;
+    tallies.set(key, t);
+  }
+  return tallies;
+};
+
+const perSession = (t: InterruptionTally | undefined) =>
+  t && t.sessions ? (t.internal + t.external) / t.sessions : 0;
+
+interface Bar {
+  key: string;
+  label: string;
+  value: number;
+  onClick?: () => void;
+  highlighted?: boolean;
+}
+
+const BarChart = ({
+  bars,
+  labelEvery = 1,
+  format = formatDuration,
+  max: fixedMax,
+}: {
+  bars: Bar[];
+  labelEvery?: number;
+  format?: (value: number) => string;
+  max?: number; // scale top, defaults to the largest bar
+}) => {
+  const max = fixedMax ?? Math.max(1, ...bars.map((b) => b.value));
+  return (
+    <div>
+      <div className="flex items-end h-40 space-x-1">
+        {bars.map((b) => (
+          <div
+            key={b.key}
+            onClick={b.onClick}
+            title={`${b.label}: ${format(b.value)}`}
+            className={`flex-1 h-full flex items-end ${b.onClick ? "cursor-pointer" : ""}`}
+          >
+            <div
+              className={`w-full ${b.highlighted ? "bg-fg" : "bg-primary"}`}
+              style={{
+                height: `${Math.min(b.value / max, 1) * 100}%`,
+                minHeight: b.value ? 2 : 0,
+              }}
+            ></div>
+          </div>
+        ))}
+      </div>
+      <div className="flex space-x-1 mt-2 border-t border-fg pt-2">
+        {bars.map((b, i) => (
+          <span key={b.key} className="flex-1 text-center text-xs opacity-60 overflow-hidden">
+            {i % labelEvery === 0 ? b.label : ""}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// GitHub-style year of daily focus time, one column per calendar week
+const Heatmap = ({
+  totals,
+  calendar,
+  selectedDay,
+  onSelectDay,
+}: {
+  totals: Map<string, number>;
+  calendar: Calendar;
+  selectedDay: string | null;
+  onSelectDay: (key: string) => void;
+}) => {
+  const last = todayKey(calendar);
+  const first = periodStart(shiftDay(last, -364), "week", calendar);
+
+  const weeks: DayKey[][] = [];
+  for (let d = first; d <= last; d = shiftDay(d, 1)) {
+    if (d === periodStart(d, "week", calendar)) weeks.push([]);
+    weeks[weeks.length - 1].push(d);
+  }
+
+  const max = Math.max(1, ...totals.values());
+
+  return (
+    <div className="flex space-x-1 overflow-x-auto scrollbar-hide pb-2">
+      <div className="flex flex-col space-y-1 mr-1 text-xs opacity-60">
+        {weekdayOrder(calendar).map((d, i) => (
+          <span key={d} className="h-3 leading-3">
+            {i % 2 ? WEEKDAY_LABELS[d] : ""}
+          </span>
+        ))}
+      </div>
+      {weeks.map((week) => (
+        <div key={week[0]} className="flex flex-col space-y-1">
+          {week.map((key) => {
+            const seconds = totals.get(key) ?? 0;
+            return (
+              <button
+                key={key}
+                onClick={() => onSelectDay(key)}
+                title={`${key}: ${formatDuration(seconds)}`}
+                className={`w-3 h-3 ${selectedDay === key ? "outline outline-1 outline-fg" : ""}`}
+                style={{
+                  backgroundColor: seconds ? primaryAlpha(0.2 + 0.8 * (seconds / max)) : "rgb(var(--color-faint))",
+                }}
+              ></button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------
+// PROGRESS VIEW
+// ---------------------------------------------------------
+
+const ProgressView = ({
+  logs,
+  journals,
+  streak,
+  freezesPerMonth,
+  goalFor,
+  chartRange,
+  setChartRange,
+  tasks,
+  calendar,
+}: {
+  logs: WorkLog[];
+  journals: DailyJournal[];
+  streak: StreakStats;
+  freezesPerMonth: number;
+  goalFor: (key: string) => DailyGoal;
+  chartRange: ChartRange;
+  setChartRange: (range: ChartRange) => void;
+  tasks: Task[];
+  calendar: Calendar;
+}) => {
+  const today = todayKey(calendar);
+
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [chartOffset, setChartOffset] = useState(0); // 0 = current week/month, -1 = previous...
+
+  const totalsByDay = dailyTotals(logs, calendar);
+  const pomodorosPerTask = pomodorosByTask(logs);
+
+  // days shown in the bar chart
+  const chartDays =
+    chartRange === "week"
+      ? periodDays(shiftDay(today, chartOffset * 7), "week", calendar)
+      : periodDays(shiftMonth(today, chartOffset), "month", calendar);
+  const chartTitle =
+    chartRange === "week"
+      ? `week of ${chartDays[0]}`
+      : fromDayKey(chartDays[0]).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  const chartLabel = (key: DayKey) =>
+    chartRange === "week" ? WEEKDAY_LABELS[weekdayOf(key)] : String(Number(key.slice(8)));
+
+  // share of each day's goal reached; rest days and the future are left out
+  const attainment = chartDays
+    .filter((key) => key <= today && goalFor(key).seconds > 0)
+    .map((key) => ({ key, share: (totalsByDay.get(key) ?? 0) / goalFor(key).seconds }));
+  const goalsMet = attainment.filter((a) => a.share >= 1).length;
+
+  const byWeekday = weekdayTotals(logs, calendar);
+
+  const dayLogs = selectedDay
+    ? logs.filter((l) => dayKey(l.timestamp, calendar) === selectedDay)
+    : [];
+  const dayJournal = selectedDay ? journals.find((j) => j.date === selectedDay) : undefined;
+
+  // calendar periods, all counted the same way as the charts
+  const ranges = ([
+    ["today", "day"],
+    ["this week", "week"],
+    ["this month", "month"],
+  ] as [string, Period][]).map(([label, period]) => ({
+    label,
+    includes: (l: WorkLog) => inPeriod(dayKey(l.timestamp, calendar), period, today, calendar),
+  }));
+
+  const total = (matching: (l: WorkLog) => boolean) =>
+    logs.filter(matching).reduce((a, b) => a + b.durationSeconds, 0);
+
+  // every project that has time logged, busiest first, untagged time last
+  const projectTotals = new Map<string, number>();
+  for (const l of logs) {
+    if (l.project) projectTotals.set(l.project, (projectTotals.get(l.project) ?? 0) + l.durationSeconds);
+  }
+  const projectRows: { label: string; project: string | undefined }[] = [
+    ...[...projectTotals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([p]) => ({ label: p, project: p })),
+    ...(logs.some((l) => !l.project) ? [{ label: "no project", project: undefined }] : []),
+  ];
+
+  // timer sessions only - manual logs were never started, so never abandoned
+  const countStatus = (status: SessionStatus) => logs.filter((l) => l.status === status).length;
+  const completedCount = countStatus("completed");
+  const interruptedCount = countStatus("interrupted");
+  const manualCount = countStatus("manual");
+  const timerSessions = completedCount + interruptedCount;
+  const completionRate = timerSessions ? completedCount / timerSessions : null;
+
+  const interruptionsByDay = interruptionTallies(logs, (l) => dayKey(l.timestamp, calendar));
+  const interruptionsByHour = interruptionTallies(logs, (l) => String(hourOf(sessionStart(l), calendar)));
+  const interruptionsByProject = [
+    ...interruptionTallies(logs, (l) => l.project ?? "").entries(),
+  ].sort((a, b) => perSession(b[1]) - perSession(a[1]));
+
+  return (
+    <div className="max-w-5xl mx-auto pt-10 p-6">
+      <h2 className="text-4xl mb-12 border-l-4 border-primary pl-6">
+        progress
+      </h2>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {ranges.map((r) => ({ label: r.label, val: total(r.includes) })).map((stat) => (
+          <div
+            key={stat.label}
+            className="bg-surface border p-10 hover:border-primary"
+          >
+            <h3 className="text-xl mb-4">{stat.label}</h3>
+            <p className="text-6xl font-light">{formatDuration(stat.val)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 bg-surface border p-10 hover:border-primary flex flex-col md:flex-row md:items-end md:justify-between">
+        <div>
+          <h3 className="text-xl mb-4">completion rate</h3>
+          <p className="text-6xl font-light">
+            {completionRate === null ? "–" : `${Math.round(completionRate * 100)}%`}
+          </p>
+        </div>
+        <p className="text-lg mt-4 md:mt-0 opacity-60">
+          {completedCount} completed · {interruptedCount} interrupted · {manualCount} manual
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mt-6">
+        <div className="bg-surface border p-10 hover:border-primary">
+          <h3 className="text-xl mb-4">current streak</h3>
+          <p className="text-6xl font-light">
+            {streak.current} <span className="text-2xl">days</span>
+          </p>
+          {freezesPerMonth > 0 && (
+            <p className="text-lg mt-3 opacity-60">
+              {Math.max(freezesPerMonth - streak.freezesUsedThisMonth, 0)} of {freezesPerMonth} freezes
+              left this month
+            </p>
+          )}
+        </div>
+        <div className="bg-surface border p-10 hover:border-primary">
+          <h3 className="text-xl mb-4">best streak</h3>
+          <p className="text-6xl font-light">
+            {streak.best} <span className="text-2xl">days</span>
+          </p>
+        </div>
+      </div>
+
+      {projectRows.length > 0 && (
+        <div className="mt-6 bg-surface border p-10 overflow-x-auto">
+          <h3 className="text-xl mb-6">by project</h3>
+          <table className="w-full text-left text-lg">
+            <thead>
+              <tr className="opacity-60">
+                <th className="font-normal pb-3">project</th>
+                {ranges.map((r) => (
+                  <th key={r.label} className="font-normal pb-3 text-right">
+                    {r.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {projectRows.map((row) => (
+                <tr key={row.label} className="border-t border-line">
+                  <td className="py-3">{row.label}</td>
+                  {ranges.map((r) => (
+                    <td key={r.label} className="py-3 text-right tabular-nums">
+                      {formatDuration(total((l) => l.project === row.project && r.includes(l)))}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {tasks.length > 0 && (
+        <div className="mt-6 bg-surface border p-10 overflow-x-auto">
+          <h3 className="text-xl mb-6">pomodoros per task</h3>
+          <table className="w-full text-left text-lg">
+            <thead>
+              <tr className="opacity-60">
+                <th className="font-normal pb-3">task</th>
+                <th className="font-normal pb-3 text-right">estimated</th>
+                <th className="font-normal pb-3 text-right">actual</th>
+                <th className="font-normal pb-3 text-right">difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tasks.map((t) => {
+                const actual = pomodorosPerTask.get(t.id) ?? 0;
+                const diff = actual - t.estimate;
+                return (
+                  <tr key={t.id} className="border-t border-line">
+                    <td className={`py-3 ${t.completedAt ? "opacity-60" : ""}`}>{t.title}</td>
+                    <td className="py-3 text-right tabular-nums">{t.estimate}</td>
+                    <td className="py-3 text-right tabular-nums">{actual}</td>
+                    <td className={`py-3 text-right tabular-nums ${diff > 0 ? "text-primary" : ""}`}>
+                      {diff > 0 ? `+${diff}` : diff}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-6 bg-surface border p-10">
+        <h3 className="text-xl mb-6">last year</h3>
+        <Heatmap
+          totals={totalsByDay}
+          calendar={calendar}
+          selectedDay={selectedDay}
+          onSelectDay={setSelectedDay}
+        />
+      </div>
+
+      <div className="mt-6 bg-surface border p-10">
+        <div className="flex flex-wrap items-center justify-between mb-6 gap-4">
+          <h3 className="text-xl">{chartTitle}</h3>
+          <div className="flex items-center space-x-2 text-lg">
+            {(["week", "month"] as ChartRange[]).map((r) => (
+              <button
+                key={r}
+                onClick={() => {
+                  setChartRange(r);
+                  setChartOffset(0);
+                }}
+                className={`px-4 py-1 border ${
+                  chartRange === r ? "border-primary bg-primary text-page" : "border-fg"
+                }`}
+              >
+                {r}
+              </button>
+            ))}
+            <button
+              onClick={() => setChartOffset(chartOffset - 1)}
+              aria-label="earlier"
+              className="px-3 hover:text-primary"
+            >
+              <i className="fas fa-chevron-left"></i>
+            </button>
+            <button
+              onClick={() => setChartOffset(chartOffset + 1)}
+              aria-label="later"
+              disabled={chartOffset >= 0}
+              className="px-3 hover:text-primary disabled:opacity-20"
+            >
+              <i className="fas fa-chevron-right"></i>
+            </button>
+          </div>
+        </div>
+        <BarChart
+          bars={chartDays.map((key) => ({
+            key,
+            label: chartLabel(key),
+            value: totalsByDay.get(key) ?? 0,
+            onClick: () => setSelectedDay(key),
+            highlighted: key === selectedDay,
+          }))}
+          labelEvery={chartRange === "week" ? 1 : 5}
+        />
+      </div>
+
+      <div className="mt-6 bg-surface border p-10">
+        <div className="flex flex-wrap items-center justify-between mb-6 gap-4">
+          <h3 className="text-xl">goal attainment · {chartTitle}</h3>
+          <p className="text-lg opacity-60">
+            goal met on {goalsMet} of {attainment.length} days
+          </p>
+        </div>
+        <BarChart
+          bars={chartDays.map((key) => {
+            const a = attainment.find((x) => x.key === key);
+            return {
+              key,
+              label: chartLabel(key),
+              value: a ? Math.round(a.share * 100) : 0,
+              onClick: () => setSelectedDay(key),
+              highlighted: a ? a.share >= 1 : false,
+            };
+          })}
+          labelEvery={chartRange === "week" ? 1 : 5}
+          format={(v) => `${v}%`}
+          max={100}
+        />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mt-6">
+        <div className="bg-surface border p-10">
+          <h3 className="text-xl mb-6">by hour of day</h3>
+          <BarChart
+            bars={hourlyTotals(logs, calendar).map((v, h) => ({ key: String(h), label: String(h), value: v }))}
+            labelEvery={6}
+          />
+        </div>
+        <div className="bg-surface border p-10">
+          <h3 className="text-xl mb-6">by day of week</h3>
+          <BarChart
+            bars={weekdayOrder(calendar).map((d) => ({
+              key: String(d),
+              label: WEEKDAY_LABELS[d],
+              value: byWeekday[d],
+            }))}
+          />
+        </div>
+      </div>
+
+      {interruptionsByDay.size > 0 && (
+        <>
+          <div className="mt-6 bg-surface border p-10">
+            <h3 className="text-xl mb-6">interruptions per session · {chartTitle}</h3>
+            <BarChart
+              bars={chartDays.map((key) => ({
+                key,
+                label: chartLabel(key),
+                value: perSession(interruptionsByDay.get(key)),
+                onClick: () => setSelectedDay(key),
+                highlighted: key === selectedDay,
+              }))}
+              labelEvery={chartRange === "week" ? 1 : 5}
+              format={(v) => v.toFixed(1)}
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6 mt-6">
+            <div className="bg-surface border p-10">
+              <h3 className="text-xl mb-6">interruptions by hour started</h3>
+              <BarChart
+                bars={Array.from({ length: 24 }, (_, h) => ({
+                  key: String(h),
+                  label: String(h),
+                  value: perSession(interruptionsByHour.get(String(h))),
+                }))}
+                labelEvery={6}
+                format={(v) => `${v.toFixed(1)} per session`}
+              />
             </div>
+            <div className="bg-surface border p-10 overflow-x-auto">
+              <h3 className="text-xl mb-6">interruptions by project</h3>
+              <table className="w-full text-left text-lg">
+                <thead>
+                  <tr className="opacity-60">
+                    <th className="font-normal pb-3">project</th>
+                    <th className="font-normal pb-3 text-right">internal</th>
+                    <th className="font-normal pb-3 text-right">external</th>
+                    <th className="font-normal pb-3 text-right">per session</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {interruptionsByProject.map(([p, t]) => (
+                    <tr key={p} className="border-t border-line">
+                      <td className="py-3">{p || "no project"}</td>
+                      <td className="py-3 text-right tabular-nums">{t.internal}</td>
+                      <td className="py-3 text-right tabular-nums">{t.external}</td>
+                      <td className="py-3 text-right tabular-nums">{perSession(t).toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {selectedDay && (
+        <div className="mt-6 bg-surface border border-primary p-10">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-2xl">{selectedDay}</h3>
+            <button onClick={() => setSelectedDay(null)} aria-label="close" className="hover:text-primary">
+              <i className="fas fa-xmark text-xl"></i>
+            </button>
+          </div>
+
+          <p className="text-5xl font-light mb-8">{formatDuration(totalsByDay.get(selectedDay) ?? 0)}</p>
+
+          {dayLogs.length === 0 ? (
+            <p className="opacity-60 mb-8">no sessions.</p>
           ) : (
-            <div
-              className="text-9xl font-medium text-[#ff10f0] tabular-nums tracking-tight"
-              style={{ WebkitTextStroke: "2px #ff10f0" }}
-            >
-              {`${Math.floor(timeLeft / 60)
-                .toString()
-                .padStart(2, "0")}:${(timeLeft % 60).toString().padStart(2, "0")}`}
+            <div className="flex flex-col space-y-2 mb-8">
+              {dayLogs.map((l) => (
+                <div key={l.id} className="flex justify-between border-b border-line pb-2 text-lg">
+                  <span>
+                    {timeOf(l.timestamp, calendar)}
+                    {l.project && <span className="ml-3 text-primary">{l.project}</span>}
+                    {!!l.interruptions?.length && (
+                      <span
+                        className="ml-3 opacity-60"
+                        title={l.interruptions.map((i) => `${i.kind}${i.note ? `: ${i.note}` : ""}`).join("\n")}
+                      >
+                        {l.interruptions.length} interruption{l.interruptions.length === 1 ? "" : "s"}
+                      </span>
+                    )}
+                  </span>
+                  <span className="tabular-nums">{formatDuration(l.durationSeconds)}</span>
+                </div>
+              ))}
             </div>
           )}
+
+          {dayJournal ? (
+            <div>
+              <StarRating rating={dayJournal.rating} />
+              <p className="mt-4 italic text-xl font-light">"{dayJournal.highlight}"</p>
+            </div>
+          ) : (
+            <p className="opacity-60">no journal entry.</p>
+          )}
         </div>
-  
-        {/* Progress Bar (keeps using timeLeft & secondsForMode(mode)) */}
-        <div className="w-full max-w-2xl relative h-12 flex items-center justify-center">
-          <div className="w-full h-[1px] bg-[#f0f0f0] absolute"></div>
-          <div className="absolute top-0 h-full w-full pointer-events-none">
-            <div
-              className="absolute top-1/2 -mt-4 transition-all duration-1000 ease-linear flex flex-col items-center"
-              style={{
-                left: `calc(${((secondsForMode(mode) - timeLeft) / secondsForMode(mode)) * 100}% - 20px)`,
-              }}
+      )}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------
+// TASKS VIEW
+// ---------------------------------------------------------
+
+// completed focus sessions logged against each task
+const pomodorosByTask = (logs: WorkLog[]) => {
+  const counts = new Map<string, number>();
+  for (const l of logs) {
+    if (l.taskId && l.status === "completed") counts.set(l.taskId, (counts.get(l.taskId) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const PomodoroCount = ({ actual, estimate }: { actual: number; estimate: number }) => (
+  <span className="tabular-nums">
+    <span className={actual > estimate ? "text-primary" : ""}>{actual}</span>
+    <span className="opacity-60"> / {estimate}</span>
+    <i className="fas fa-clock ml-2 text-sm opacity-60"></i>
+  </span>
+);
+
+const TasksView = ({
+  tasks,
+  logs,
+  activeTaskId,
+  saveTask,
+  deleteTask,
+  startTask,
+}: {
+  tasks: Task[];
+  logs: WorkLog[];
+  activeTaskId: string | null;
+  saveTask: (task: Task) => void;
+  deleteTask: (id: string) => void;
+  startTask: (id: string) => void;
+}) => {
+  const [title, setTitle] = useState("");
+  const [estimate, setEstimate] = useState(1);
+
+  const actual = pomodorosByTask(logs);
+  const open = tasks.filter((t) => !t.completedAt);
+  const done = tasks
+    .filter((t) => t.completedAt)
+    .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0));
+
+  const addTask = () => {
+    if (!title.trim()) return;
+    saveTask({
+      id: `task-${newLogId()}`,
+      title: title.trim(),
+      estimate,
+      createdAt: Date.now(),
+    });
+    setTitle("");
+    setEstimate(1);
+  };
+
+  const row = (t: Task) => (
+    <div
+      key={t.id}
+      className={`flex items-center justify-between bg-surface border p-5 ${
+        t.id === activeTaskId ? "border-primary" : "border-fg"
+      }`}
+    >
+      <label className="flex items-center space-x-4 cursor-pointer min-w-0">
+        <input
+          type="checkbox"
+          checked={!!t.completedAt}
+          onChange={(e) => {
+            const { completedAt, ...rest } = t;
+            saveTask(e.target.checked ? { ...rest, completedAt: Date.now() } : rest);
+          }}
+          className="w-5 h-5 accent-primary shrink-0"
+        />
+        <span className={`text-xl truncate ${t.completedAt ? "line-through opacity-60" : ""}`}>
+          {t.title}
+        </span>
+      </label>
+      <div className="flex items-center space-x-4 text-lg shrink-0">
+        <PomodoroCount actual={actual.get(t.id) ?? 0} estimate={t.estimate} />
+        {!t.completedAt && (
+          <button onClick={() => startTask(t.id)} className="hover:text-primary" title="work on this">
+            <i className="fas fa-play"></i>
+          </button>
+        )}
+        <button
+          onClick={() => {
+            if (confirm("delete this task? its sessions stay logged.")) deleteTask(t.id);
+          }}
+          className="hover:text-primary"
+          title="delete"
+        >
+          <i className="fas fa-trash"></i>
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto pt-10 p-6">
+      <h2 className="text-4xl mb-12 border-l-4 border-primary pl-6">tasks</h2>
+
+      <div className="flex space-x-4 mb-10">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addTask()}
+          placeholder="new task"
+          className="flex-1 bg-raised border border-fg p-4 text-xl focus:border-primary"
+        />
+        <input
+          type="number"
+          min={1}
+          max={20}
+          value={estimate}
+          onChange={(e) => setEstimate(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 20))}
+          title="estimated pomodoros"
+          className="w-20 bg-raised border border-fg p-4 text-xl text-right focus:border-primary"
+        />
+        <button
+          onClick={addTask}
+          disabled={!title.trim()}
+          className="bg-primary text-page text-xl px-8 disabled:opacity-20"
+        >
+          add
+        </button>
+      </div>
+
+      {open.length === 0 ? (
+        <p className="text-xl opacity-60">nothing to do. nice.</p>
+      ) : (
+        <div className="flex flex-col space-y-3">{open.map(row)}</div>
+      )}
+
+      {done.length > 0 && (
+        <>
+          <h3 className="text-2xl mt-12 mb-6">done</h3>
+          <div className="flex flex-col space-y-3">{done.map(row)}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------
+// ROOM VIEW
+// ---------------------------------------------------------
+
+const MODE_LABELS: Record<TimerMode, string> = { focus: "work", short: "break", long: "long break" };
+
+const RoomView = ({
+  room,
+  signedIn,
+  invite,
+  onLogin,
+}: {
+  room: TeamRoom;
+  signedIn: boolean;
+  invite?: string;
+  onLogin: () => void;
+}) => {
+  const [codeInput, setCodeInput] = useState(invite ?? "");
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (invite) setCodeInput(invite);
+  }, [invite]);
+
+  const heading = (
+    <h2 className="text-4xl mb-12 border-l-4 border-primary pl-6">
+      room{room.code && <span className="text-primary ml-4 tracking-widest">{room.code}</span>}
+    </h2>
+  );
+
+  if (!signedIn) {
+    return (
+      <div className="max-w-3xl mx-auto pt-10 p-6">
+        {heading}
+        <p className="text-xl mb-8">rooms share one timer between teammates. sign in to open or join one.</p>
+        <button onClick={onLogin} className="bg-primary text-page text-xl px-8 py-3">
+          sign in
+        </button>
+      </div>
+    );
+  }
+
+  if (!room.code) {
+    return (
+      <div className="max-w-3xl mx-auto pt-10 p-6">
+        {heading}
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="bg-surface border p-10 flex flex-col">
+            <h3 className="text-xl mb-4">open a room</h3>
+            <p className="opacity-60 mb-8 flex-1">
+              uses your timer settings. share the code and work in sync.
+            </p>
+            <button onClick={room.create} className="bg-primary text-page text-xl py-3">
+              open
+            </button>
+          </div>
+          <div className="bg-surface border p-10 flex flex-col">
+            <h3 className="text-xl mb-4">join with a code</h3>
+            <input
+              value={codeInput}
+              onChange={(e) => setCodeInput(normaliseInviteCode(e.target.value))}
+              onKeyDown={(e) => e.key === "Enter" && room.join(codeInput)}
+              maxLength={6}
+              placeholder="ABC234"
+              className="bg-raised border border-fg p-3 text-2xl tracking-widest mb-8 flex-1 focus:border-primary"
+            />
+            <button
+              onClick={() => room.join(codeInput)}
+              disabled={!codeInput}
+              className="bg-primary text-page text-xl py-3 disabled:opacity-20"
             >
-              <i className="fas fa-cat text-4xl text-[#f0f0f0]" style={{ transform: "scaleX(-1)" }}></i>
-            </div>
+              join
+            </button>
           </div>
         </div>
-  
-        {/* Controls */}
-        <div className="flex space-x-8 z-10">
+      </div>
+    );
+  }
+
+  const leaveButton = (
+    <button
+      onClick={room.leave}
+      className="text-lg text-fg hover:text-primary transition-colors"
+    >
+      <i className="fas fa-right-from-bracket mr-2"></i>leave room
+    </button>
+  );
+
+  if (room.missing) {
+    return (
+      <div className="max-w-3xl mx-auto pt-10 p-6">
+        {heading}
+        <p className="text-xl mb-8">this room doesn't exist anymore.</p>
+        {leaveButton}
+      </div>
+    );
+  }
+
+  if (!room.room) {
+    return (
+      <div className="max-w-3xl mx-auto pt-10 p-6">
+        {heading}
+        <p className="text-xl opacity-60">connecting...</p>
+      </div>
+    );
+  }
+
+  const { timer } = room.room;
+  const now = Date.now();
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/room/${room.code}`);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      alert(`share this code: ${room.code}`);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto pt-10 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        {heading}
+        <button onClick={copyLink} className="text-lg hover:text-primary mt-2">
+          <i className={`fas ${copied ? "fa-check" : "fa-link"} mr-2`}></i>
+          {copied ? "copied" : "copy invite link"}
+        </button>
+      </div>
+
+      <div className="flex flex-col items-center space-y-10">
+        <div className="flex space-x-4">
+          {(["focus", "short", "long"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => room.setMode(m)}
+              className={`px-6 py-2 text-xl border transition-all ${
+                timer.mode === m
+                  ? "border-primary bg-primary text-page"
+                  : "border-fg text-fg hover:border-primary hover:text-primary"
+              }`}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+
+        <div role="timer" className="text-8xl font-medium text-primary tabular-nums tracking-tight">
+          {`${Math.floor(room.timeLeft / 60)
+            .toString()
+            .padStart(2, "0")}:${(room.timeLeft % 60).toString().padStart(2, "0")}`}
+        </div>
+        <div className="flex space-x-8">
           <button
-            onClick={toggleTimer}
-            className="w-20 h-20 rounded-full bg-[#f0f0f0] text-black flex items-center justify-center text-2xl hover:bg-[#ff10f0] hover:scale-105 transition-all"
+            onClick={room.toggle}
+            aria-label={room.isActive ? "pause" : "start"}
+            className="w-20 h-20 rounded-full bg-fg text-page flex items-center justify-center text-2xl hover:bg-primary motion-safe:hover:scale-105 transition-all"
           >
-            <i className={`fas ${isActive ? "fa-pause" : "fa-play"}`}></i>
+            <i className={`fas ${room.isActive ? "fa-pause" : "fa-play"}`}></i>
           </button>
-  
           <button
-            onClick={resetTimer}
-            className="w-20 h-20 rounded-full border border-[#f0f0f0] text-[#f0f0f0] flex items-center justify-center text-xl hover:border-[#ff10f0] hover:text-[#ff10f0] transition-colors"
+            onClick={room.reset}
+            aria-label="reset"
+            className="w-20 h-20 rounded-full border border-fg text-fg flex items-center justify-center text-xl hover:border-primary hover:text-primary transition-colors"
           >
             <i className="fas fa-redo"></i>
           </button>
         </div>
-  
-        {/* Manual Entry */}
-        <div className="text-center z-10">
+      </div>
+
+      <div className="mt-12 bg-surface border p-10">
+        <h3 className="text-xl mb-6">members</h3>
+        <div className="flex flex-col space-y-3">
+          {room.members.map((m) => {
+            const status = memberStatus(m, timer, now);
+            return (
+              <div key={m.uid} className="flex justify-between border-b border-line pb-3 text-lg">
+                <span className="truncate">
+                  {m.name}
+                  {m.project && <span className="ml-3 text-primary">{m.project}</span>}
+                </span>
+                <span className={status === "focusing" ? "text-primary" : "opacity-60"}>{status}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="mt-8 text-center">{leaveButton}</div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------
+// TEAM VIEW
+// ---------------------------------------------------------
+
+const TeamView = ({
+  uid,
+  calendar,
+  teamIds,
+  invite,
+  onLogin,
+  onCreate,
+  onJoin,
+  onLeave,
+}: {
+  uid: string | null;
+  calendar: Calendar;
+  teamIds: string[];
+  invite?: string;
+  onLogin: () => void;
+  onCreate: (name: string) => Promise<string | null>;
+  onJoin: (code: string) => Promise<boolean>;
+  onLeave: (id: string) => void;
+}) => {
+  const [selected, setSelected] = useState<string | null>(teamIds[0] ?? null);
+  const [weekOffset, setWeekOffset] = useState(0); // 0 = this week, -1 = last week...
+  const [nameInput, setNameInput] = useState("");
+  const [codeInput, setCodeInput] = useState(invite ?? "");
+  const [copied, setCopied] = useState(false);
+
+  // follow joins and leaves
+  const current = selected && teamIds.includes(selected) ? selected : teamIds[0] ?? null;
+  const { team, members } = useTeam(uid ? current : null);
+
+  useEffect(() => {
+    if (invite) setCodeInput(invite);
+  }, [invite]);
+
+  const heading = <h2 className="text-4xl mb-12 border-l-4 border-primary pl-6">team</h2>;
+
+  if (!uid) {
+    return (
+      <div className="max-w-5xl mx-auto pt-10 p-6">
+        {heading}
+        <p className="text-xl mb-8">
+          teams compare weekly focus time and streaks. journals stay private. sign in to join one.
+        </p>
+        <button onClick={onLogin} className="bg-primary text-page text-xl px-8 py-3">
+          sign in
+        </button>
+      </div>
+    );
+  }
+
+  const joinForms = (
+    <div className="grid md:grid-cols-2 gap-6 mt-6">
+      <div className="bg-surface border p-10 flex flex-col">
+        <h3 className="text-xl mb-4">start a team</h3>
+        <input
+          value={nameInput}
+          onChange={(e) => setNameInput(e.target.value)}
+          placeholder="team name"
+          className="bg-raised border border-fg p-3 text-xl mb-8 focus:border-primary"
+        />
+        <button
+          onClick={async () => {
+            const id = await onCreate(nameInput.trim());
+            if (id) {
+              setSelected(id);
+              setNameInput("");
+            }
+          }}
+          disabled={!nameInput.trim()}
+          className="bg-primary text-page text-xl py-3 disabled:opacity-20"
+        >
+          start
+        </button>
+      </div>
+      <div className="bg-surface border p-10 flex flex-col">
+        <h3 className="text-xl mb-4">join with a code</h3>
+        <input
+          value={codeInput}
+          onChange={(e) => setCodeInput(normaliseInviteCode(e.target.value))}
+          maxLength={6}
+          placeholder="ABC234"
+          className="bg-raised border border-fg p-3 text-xl tracking-widest mb-8 focus:border-primary"
+        />
+        <button
+          onClick={async () => {
+            if (await onJoin(codeInput)) {
+              setSelected(codeInput);
+              setCodeInput("");
+            }
+          }}
+          disabled={!codeInput}
+          className="bg-primary text-page text-xl py-3 disabled:opacity-20"
+        >
+          join
+        </button>
+      </div>
+    </div>
+  );
+
+  if (!current) {
+    return (
+      <div className="max-w-5xl mx-auto pt-10 p-6">
+        {heading}
+        <p className="text-xl opacity-60">
+          members see each other's weekly totals and streaks. nothing else is shared.
+        </p>
+        {joinForms}
+      </div>
+    );
+  }
+
+  const cal = teamCalendar(calendar);
+  const weekKey = shiftDay(periodStart(todayKey(cal), "week", cal), weekOffset * 7);
+  const prevKey = shiftDay(weekKey, -7);
+  const weekOf = (m: TeamMember, key: string) => m.weeks[key] ?? emptyWeek();
+
+  const ranked = [...members].sort((a, b) => weekOf(b, weekKey).seconds - weekOf(a, weekKey).seconds);
+  const teamTotal = members.reduce((a, m) => a + weekOf(m, weekKey).seconds, 0);
+  const prevTotal = members.reduce((a, m) => a + weekOf(m, prevKey).seconds, 0);
+  const activeCount = members.filter((m) => weekOf(m, weekKey).seconds > 0).length;
+  const change = prevTotal ? Math.round(((teamTotal - prevTotal) / prevTotal) * 100) : null;
+  const teamDaily = WEEKDAY_LABELS.map((_, d) =>
+    members.reduce((a, m) => a + (weekOf(m, weekKey).daily[d] ?? 0), 0)
+  );
+  const mostImproved = members
+    .map((m) => ({ m, gain: weekOf(m, weekKey).seconds - weekOf(m, prevKey).seconds }))
+    .filter((x) => x.gain > 0)
+    .sort((a, b) => b.gain - a.gain)[0];
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/team/${current}`);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      alert(`share this code: ${current}`);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto pt-10 p-6">
+      {heading}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex flex-wrap gap-2">
+          {teamIds.map((id) => (
+            <button
+              key={id}
+              onClick={() => setSelected(id)}
+              className={`px-4 py-1 border text-lg ${
+                id === current ? "border-primary bg-primary text-page" : "border-fg"
+              }`}
+            >
+              {id === current && team ? team.name : id}
+            </button>
+          ))}
+        </div>
+        <button onClick={copyLink} className="text-lg hover:text-primary">
+          <i className={`fas ${copied ? "fa-check" : "fa-link"} mr-2`}></i>
+          {copied ? "copied" : `invite · ${current}`}
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl">week of {weekKey}</h3>
+        <div className="flex items-center text-lg">
           <button
-            onClick={() => {
-              const mins = prompt("how many minutes did you work?");
-              if (mins && !isNaN(parseInt(mins))) {
-                addWorkLog(parseInt(mins) * 60);
-                alert(`added ${mins} minutes manually.`);
-              }
-            }}
-            className="text-lg text-[#f0f0f0] hover:text-[#ff10f0] transition-colors"
+            onClick={() => setWeekOffset(weekOffset - 1)}
+            aria-label="previous week"
+            disabled={weekOffset <= 1 - TEAM_WEEKS}
+            className="px-3 hover:text-primary disabled:opacity-20"
           >
-            + add manual log
+            <i className="fas fa-chevron-left"></i>
+          </button>
+          <button
+            onClick={() => setWeekOffset(weekOffset + 1)}
+            aria-label="next week"
+            disabled={weekOffset >= 0}
+            className="px-3 hover:text-primary disabled:opacity-20"
+          >
+            <i className="fas fa-chevron-right"></i>
           </button>
         </div>
       </div>
-    );
-  };  
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div className="bg-surface border p-10 hover:border-primary">
+          <h3 className="text-xl mb-4">team total</h3>
+          <p className="text-5xl font-light">{formatDuration(teamTotal)}</p>
+          {change !== null && (
+            <p className="text-lg mt-3 opacity-60">
+              {change >= 0 ? "+" : ""}
+              {change}% on the week before
+            </p>
+          )}
+        </div>
+        <div className="bg-surface border p-10 hover:border-primary">
+          <h3 className="text-xl mb-4">active members</h3>
+          <p className="text-5xl font-light">
+            {activeCount}
+            <span className="text-2xl"> / {members.length}</span>
+          </p>
+        </div>
+        <div className="bg-surface border p-10 hover:border-primary">
+          <h3 className="text-xl mb-4">most improved</h3>
+          {mostImproved ? (
+            <>
+              <p className="text-3xl font-light truncate">{mostImproved.m.name}</p>
+              <p className="text-lg mt-3 opacity-60">+{formatDuration(mostImproved.gain)}</p>
+            </>
+          ) : (
+            <p className="text-5xl font-light">–</p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 bg-surface border p-10 overflow-x-auto">
+        <h3 className="text-xl mb-6">leaderboard</h3>
+        <table className="w-full text-left text-lg">
+          <thead>
+            <tr className="opacity-60">
+              <th className="font-normal pb-3 w-12">#</th>
+              <th className="font-normal pb-3">member</th>
+              <th className="font-normal pb-3 text-right">focus</th>
+              <th className="font-normal pb-3 text-right">sessions</th>
+              <th className="font-normal pb-3 text-right">streak</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((m, i) => {
+              const week = weekOf(m, weekKey);
+              return (
+                <tr
+                  key={m.uid}
+                  className={`border-t border-line ${m.uid === uid ? "text-primary" : ""}`}
+                >
+                  <td className="py-3 tabular-nums">{i + 1}</td>
+                  <td className="py-3 truncate">{m.name}</td>
+                  <td className="py-3 text-right tabular-nums">{formatDuration(week.seconds)}</td>
+                  <td className="py-3 text-right tabular-nums">{week.sessions}</td>
+                  <td className="py-3 text-right tabular-nums" title={`best: ${m.bestStreak}`}>
+                    {m.streak}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 bg-surface border p-10">
+        <h3 className="text-xl mb-6">team focus by day</h3>
+        <BarChart bars={teamDaily.map((v, d) => ({ key: String(d), label: WEEKDAY_LABELS[d], value: v }))} />
+      </div>
+
+      <div className="mt-8 text-center">
+        <button
+          onClick={() => {
+            if (confirm(`leave ${team?.name ?? current}? your totals are removed from it.`)) onLeave(current);
+          }}
+          className="text-lg text-fg hover:text-primary transition-colors"
+        >
+          <i className="fas fa-right-from-bracket mr-2"></i>leave team
+        </button>
+      </div>
+
+      {joinForms}
+    </div>
+  );
+};
 
 // ---------------------------------------------------------
-// JOURNAL VIEW
+// LOG HISTORY VIEW
 // ---------------------------------------------------------
 
-const JournalView = ({
-  secondsWorkedToday,
-  daysActive,
-  saveEntry,
-  existingEntry,
+const LogHistoryView = ({
+  logs,
+  projects,
+  calendar,
+  addWorkLog,
+  updateWorkLog,
+  deleteWorkLog,
 }: {
-  secondsWorkedToday: number;
-  daysActive: number;
-  saveEntry: (highlight: string, rating: number) => void;
-  existingEntry: DailyJournal | undefined;
+  logs: WorkLog[];
+  projects: string[];
+  calendar: Calendar;
+  addWorkLog: (entry: NewWorkLog) => void;
+  updateWorkLog: (log: WorkLog) => void;
+  deleteWorkLog: (id: string) => void;
 }) => {
-  const [highlight, setHighlight] = useState(existingEntry?.highlight || "");
-  const [submitted, setSubmitted] = useState(!!existingEntry);
+  // undefined = closed, null = adding, a log = editing it
+  const [editing, setEditing] = useState<WorkLog | null | undefined>(undefined);
 
-  useEffect(() => {
-    if (existingEntry) {
-      setHighlight(existingEntry.highlight);
-      setSubmitted(true);
-    }
-  }, [existingEntry]);
+  return (
+    <div className="max-w-3xl mx-auto pt-10 p-6">
+      <div className="flex items-center justify-between mb-12">
+        <h2 className="text-4xl border-l-4 border-primary pl-6">history</h2>
+        <button
+          onClick={() => setEditing(null)}
+          className="border border-fg px-6 py-2 text-lg hover:border-primary hover:text-primary"
+        >
+          + add log
+        </button>
+      </div>
+
+      {logs.length === 0 ? (
+        <p className="text-xl opacity-60">no sessions logged yet.</p>
+      ) : (
+        <div className="flex flex-col space-y-3">
+          {logs.map((log) => (
+            <div
+              key={log.id}
+              className="flex items-center justify-between bg-surface border border-fg p-5"
+            >
+              <div>
+                <p className="text-xl">
+                  {formatDuration(log.durationSeconds)}
+                  {log.project && <span className="ml-3 text-primary">{log.project}</span>}
+                </p>
+                <p className="text-sm opacity-60">
+                  {new Date(log.timestamp).toLocaleString(undefined, { timeZone: calendar.timeZone })} ·{" "}
+                  {log.status ?? "timer"}
+                </p>
+              </div>
+              <div className="flex space-x-4 text-lg">
+                <button onClick={() => setEditing(log)} className="hover:text-primary" title="edit">
+                  <i className="fas fa-pen"></i>
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm("delete this session?")) deleteWorkLog(log.id);
+                  }}
+                  className="hover:text-primary"
+                  title="delete"
+                >
+                  <i className="fas fa-trash"></i>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
 
-  const targetSeconds = daysActive <= 10 ? 4 * 3600 : 5 * 3600;
-  const rawRating = (secondsWorkedToday / targetSeconds) * 5;
-  const rating = Math.min(Math.round(rawRating), 5);
+      {editing !== undefined && (
+        <LogFormModal
+          initial={editing ?? undefined}
+          projects={projects}
+          calendar={calendar}
+          onSave={(entry) => {
+            if (editing) updateWorkLog({ ...editing, ...entry });
+            else addWorkLog(entry);
+            setEditing(undefined);
+          }}
+          onClose={() => setEditing(undefined)}
+        />
+      )}
+    </div>
+  );
+};
 
-  const handleSubmit = () => {
-    saveEntry(highlight, rating);
-    setSubmitted(true);
-  };
+// ---------------------------------------------------------
+// SETTINGS VIEW
+// ---------------------------------------------------------
 
-  if (submitted && existingEntry) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full p-6 text-center">
-        <h2 className="text-4xl text-[#ff10f0] mb-4">day logged</h2>
+const NumberSetting = ({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (v: number) => void;
+}) => (
+  <label className="flex items-center justify-between bg-surface p-6 border border-fg">
+    <span className="text-xl">{label}</span>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const v = Math.round(parseFloat(e.target.value) / step) * step;
+        if (!isNaN(v)) onChange(Math.min(Math.max(v, min), max));
+      }}
+      className="w-24 bg-raised border border-fg p-2 text-xl text-right focus:border-primary"
+    />
+  </label>
+);
 
-        <div className="text-8xl mb-6 text-[#f0f0f0] font-black">
-          {existingEntry.rating}
-          <span className="text-4xl font-light">/5</span>
-        </div>
+const SettingsView = ({
+  settings,
+  updateSettings,
+  logs,
+  journals,
+  tasks,
+  importFile,
+}: {
+  settings: UserSettings;
+  updateSettings: (patch: Partial<UserSettings>) => void;
+  logs: WorkLog[];
+  journals: DailyJournal[];
+  tasks: Task[];
+  importFile: (file: File) => void;
+}) => {
+  const today = todayKey(settings.calendar);
 
-        <StarRating rating={existingEntry.rating} />
+  const timer = settings.timer;
+  const setTimer = (patch: Partial<TimerSettings>) =>
+    updateSettings({ timer: { ...timer, ...patch } });
 
-        <p className="mt-12 text-[#f0f0f0] max-w-md italic text-2xl font-light">
-          "{existingEntry.highlight}"
-        </p>
-      </div>
-    );
-  }
+  const alerts = settings.alerts;
+  const setAlerts = (patch: Partial<AlertSettings>) =>
+    updateSettings({ alerts: { ...alerts, ...patch } });
+
+  const goals = settings.goals;
+  const setGoals = (patch: Partial<GoalSettings>) =>
+    updateSettings({ goals: { ...goals, ...patch } });
+
+  const setCalendar = (patch: Partial<Calendar>) =>
+    updateSettings({ calendar: { ...settings.calendar, ...patch } });
+
+  const [timeZoneText, setTimeZoneText] = useState(settings.calendar.timeZone ?? "");
+  const saveTimeZone = () => {
+    const zone = timeZoneText.trim();
+    if (zone === (settings.calendar.timeZone ?? "")) return;
+    if (zone && !isValidTimeZone(zone)) {
+      alert(`"${zone}" isn't a time zone. try something like europe/berlin.`);
+      setTimeZoneText(settings.calendar.timeZone ?? "");
+      return;
+    }
+    setCalendar({ timeZone: zone || undefined });
+  };
+
+  const [newProject, setNewProject] = useState("");
+  const [icsFrom, setIcsFrom] = useState("");
+  const [icsTo, setIcsTo] = useState("");
+  const addProject = () => {
+    const name = newProject.trim();
+    if (!name || settings.projects.includes(name)) return;
+    updateSettings({ projects: [...settings.projects, name] });
+    setNewProject("");
+  };
 
   return (
     <div className="max-w-3xl mx-auto pt-10 p-6">
-      <h2 className="text-4xl mb-12 border-l-4 border-[#ff10f0] pl-6">
-        end of day
+      <h2 className="text-4xl mb-12 border-l-4 border-primary pl-6">
+        settings
       </h2>
 
-      <div className="grid md:grid-cols-2 gap-6 mb-10">
-        <div className="bg-[#050505] p-8 border border-[#f0f0f0]">
-          <h3 className="text-lg mb-2">time worked</h3>
-          <p className="text-5xl font-light">{formatDuration(secondsWorkedToday)}</p>
-        </div>
+      <h3 className="text-2xl mb-6">timer</h3>
+      <div className="flex flex-col space-y-4">
+        <NumberSetting
+          label="work (minutes)"
+          value={timer.focusMinutes}
+          min={1}
+          max={180}
+          onChange={(v) => setTimer({ focusMinutes: v })}
+        />
+        <NumberSetting
+          label="break (minutes)"
+          value={timer.shortBreakMinutes}
+          min={1}
+          max={60}
+          onChange={(v) => setTimer({ shortBreakMinutes: v })}
+        />
+        <NumberSetting
+          label="long break (minutes)"
+          value={timer.longBreakMinutes}
+          min={1}
+          max={120}
+          onChange={(v) => setTimer({ longBreakMinutes: v })}
+        />
+        <NumberSetting
+          label="long break every n sessions"
+          value={timer.longBreakEvery}
+          min={1}
+          max={12}
+          onChange={(v) => setTimer({ longBreakEvery: v })}
+        />
+        <label className="flex items-center justify-between bg-surface p-6 border border-fg cursor-pointer">
+          <span className="text-xl">auto-start the next session</span>
+          <input
+            type="checkbox"
+            checked={timer.autoAdvance}
+            onChange={(e) => setTimer({ autoAdvance: e.target.checked })}
+            className="w-6 h-6 accent-primary"
+          />
+        </label>
+      </div>
 
-        <div className="bg-[#050505] p-8 border border-[#f0f0f0]">
-          <h3 className="text-lg mb-2">target</h3>
-          <p className="text-5xl font-light">{formatDuration(targetSeconds)}</p>
-          <p className="text-lg mt-3">
-            {daysActive <= 10 ? "beginner (4h)" : "pro (5h)"}
-          </p>
-        </div>
+      <h3 className="text-2xl mt-12 mb-6">sounds & notifications</h3>
+      <div className="flex flex-col space-y-4">
+        {(
+          [
+            ["focusSound", "notifyFocus", "work session ends"],
+            ["breakSound", "notifyBreak", "break ends"],
+          ] as const
+        ).map(([soundKey, notifyKey, label]) => (
+          <div key={soundKey} className="bg-surface p-6 border border-fg flex flex-col space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-xl">{label}</span>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={alerts[soundKey]}
+                  onChange={(e) => setAlerts({ [soundKey]: e.target.value as SoundId | "none" })}
+                  className="bg-page border border-fg p-2 text-lg focus:border-primary"
+                >
+                  <option value="none">no sound</option>
+                  {(Object.keys(SOUNDS) as SoundId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {SOUNDS[id].label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => playSound(alerts[soundKey], alerts.volume)}
+                  disabled={alerts[soundKey] === "none"}
+                  className="hover:text-primary disabled:opacity-20"
+                  title="play"
+                >
+                  <i className="fas fa-volume-high"></i>
+                </button>
+              </div>
+            </div>
+            <label className="flex items-center justify-between cursor-pointer">
+              <span className="text-lg opacity-80">notify me when the tab is in the background</span>
+              <input
+                type="checkbox"
+                checked={alerts[notifyKey]}
+                onChange={async (e) => {
+                  const on = e.target.checked;
+                  if (on && !(await requestNotifications())) {
+                    alert("notifications are blocked for this site.");
+                    return;
+                  }
+                  setAlerts({ [notifyKey]: on });
+                }}
+                className="w-6 h-6 accent-primary"
+              />
+            </label>
+          </div>
+        ))}
+        <label className="flex items-center justify-between bg-surface p-6 border border-fg">
+          <span className="text-xl">volume</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={alerts.volume}
+            onChange={(e) => setAlerts({ volume: parseInt(e.target.value) })}
+            className="w-48 accent-primary"
+          />
+        </label>
       </div>
 
-      <textarea
-        className="w-full bg-[#0a0a0a] border border-[#f0f0f0] p-6 text-xl h-48 resize-none focus:border-[#ff10f0]"
-        placeholder="what did you achieve today?"
-        value={highlight}
-        onChange={(e) => setHighlight(e.target.value)}
-      ></textarea>
+      <h3 className="text-2xl mt-12 mb-6">daily goals</h3>
+      <div className="flex flex-col space-y-4">
+        {WEEKDAY_NAMES.map((name, i) => (
+          <NumberSetting
+            key={name}
+            label={`${name} (hours, 0 = rest day)`}
+            value={goals.weekdayHours[i]}
+            min={0}
+            max={16}
+            step={0.5}
+            onChange={(v) =>
+              setGoals({ weekdayHours: goals.weekdayHours.map((h, j) => (j === i ? v : h)) })
+            }
+          />
+        ))}
+        <label className="flex items-center justify-between bg-surface p-6 border border-fg cursor-pointer">
+          <span className="text-xl">ramp up gradually when starting out</span>
+          <input
+            type="checkbox"
+            checked={goals.rampUp}
+            onChange={(e) => setGoals({ rampUp: e.target.checked })}
+            className="w-6 h-6 accent-primary"
+          />
+        </label>
+        {goals.rampUp && (
+          <>
+            <NumberSetting
+              label="start at (hours)"
+              value={goals.rampStartHours}
+              min={0.5}
+              max={16}
+              step={0.5}
+              onChange={(v) => setGoals({ rampStartHours: v })}
+            />
+            <NumberSetting
+              label="reach the full goal after (days)"
+              value={goals.rampDays}
+              min={1}
+              max={90}
+              onChange={(v) => setGoals({ rampDays: v })}
+            />
+          </>
+        )}
+      </div>
 
-      <div className="flex justify-between mt-10 border-t border-[#f0f0f0] pt-8">
-        <div>
-          <p className="text-lg mb-2">projected rating</p>
-          <StarRating rating={rating} />
-        </div>
+      <h3 className="text-2xl mt-12 mb-6">journal prompts</h3>
+      <div className="flex flex-col space-y-4">
+        {settings.journalPrompts.map((p) => (
+          <div key={p.id} className="flex space-x-4">
+            <input
+              value={p.question}
+              onChange={(e) =>
+                updateSettings({
+                  journalPrompts: settings.journalPrompts.map((x) =>
+                    x.id === p.id ? { ...x, question: e.target.value } : x
+                  ),
+                })
+              }
+              className="flex-1 bg-raised border border-fg p-4 text-xl focus:border-primary"
+            />
+            <button
+              onClick={() =>
+                updateSettings({ journalPrompts: settings.journalPrompts.filter((x) => x.id !== p.id) })
+              }
+              className="text-fg hover:text-primary px-2"
+              title="remove prompt"
+            >
+              <i className="fas fa-xmark"></i>
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() =>
+            updateSettings({
+              journalPrompts: [
+                ...settings.journalPrompts,
+                { id: `prompt-${Date.now().toString(36)}`, question: "new prompt" },
+              ],
+            })
+          }
+          className="self-start border border-fg px-6 py-2 text-lg hover:border-primary hover:text-primary"
+        >
+          + add prompt
+        </button>
+      </div>
+
+      <h3 className="text-2xl mt-12 mb-6">streak</h3>
+      <NumberSetting
+        label="freezes per month"
+        value={settings.streakFreezesPerMonth}
+        min={0}
+        max={10}
+        onChange={(v) => updateSettings({ streakFreezesPerMonth: v })}
+      />
+
+      <h3 className="text-2xl mt-12 mb-6">calendar</h3>
+      <div className="flex flex-col space-y-4">
+        <label className="flex items-center justify-between bg-surface p-6 border border-fg">
+          <span className="text-xl">week starts on</span>
+          <select
+            value={settings.calendar.weekStartsOn}
+            onChange={(e) => setCalendar({ weekStartsOn: Number(e.target.value) })}
+            className="bg-page border border-fg p-2 text-lg focus:border-primary"
+          >
+            {WEEKDAY_NAMES.map((name, d) => (
+              <option key={name} value={d}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between bg-surface p-6 border border-fg">
+          <span className="text-xl">time zone</span>
+          <input
+            value={timeZoneText}
+            onChange={(e) => setTimeZoneText(e.target.value)}
+            onBlur={saveTimeZone}
+            onKeyDown={(e) => e.key === "Enter" && saveTimeZone()}
+            placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+            className="w-64 bg-raised border border-fg p-2 text-lg text-right focus:border-primary"
+          />
+        </label>
+        <p className="opacity-60">
+          days, weeks and months in your totals, charts and streaks follow these. leave the zone empty to
+          use this device's.
+        </p>
+      </div>
+
+      <h3 className="text-2xl mt-12 mb-6">theme</h3>
+      <div className="grid grid-cols-3 gap-4 text-lg">
+        {(Object.keys(THEME_LABELS) as ThemeId[]).map((id) => (
+          <button
+            key={id}
+            onClick={() => updateSettings({ theme: id })}
+            aria-pressed={settings.theme === id}
+            className={`border px-4 py-3 transition-colors ${
+              settings.theme === id
+                ? "border-primary bg-primary text-page"
+                : "border-fg hover:border-primary hover:text-primary"
+            }`}
+          >
+            {THEME_LABELS[id]}
+          </button>
+        ))}
+      </div>
 
+      <h3 className="text-2xl mt-12 mb-6">data</h3>
+      <div className="flex flex-wrap gap-4 text-lg">
         <button
-          onClick={handleSubmit}
-          disabled={!highlight.trim()}
-          className="bg-[#ff10f0] text-black text-xl py-4 px-12 disabled:opacity-20"
+          onClick={() =>
+            downloadFile(
+              `neonfocus-${today}.json`,
+              JSON.stringify(buildExport(settings, logs, journals, tasks), null, 2),
+              "application/json"
+            )
+          }
+          className="border border-fg px-6 py-2 hover:border-primary hover:text-primary"
+        >
+          export json
+        </button>
+        <button
+          onClick={() =>
+            downloadFile(`neonfocus-logs-${today}.csv`, logsToCsv(logs, settings.calendar), "text/csv")
+          }
+          className="border border-fg px-6 py-2 hover:border-primary hover:text-primary"
         >
-          complete
+          export logs as csv
         </button>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={icsFrom}
+            onChange={(e) => setIcsFrom(e.target.value)}
+            title="from"
+            className="bg-raised border border-fg p-2 focus:border-primary"
+          />
+          <span>–</span>
+          <input
+            type="date"
+            value={icsTo}
+            onChange={(e) => setIcsTo(e.target.value)}
+            title="to"
+            className="bg-raised border border-fg p-2 focus:border-primary"
+          />
+          <button
+            onClick={() =>
+              downloadFile(
+                `neonfocus-${icsFrom || "start"}-${icsTo || today}.ics`,
+                logsToIcs(logsInRange(logs, icsFrom, icsTo, settings.calendar)),
+                "text/calendar"
+              )
+            }
+            disabled={!!icsFrom && !!icsTo && icsFrom > icsTo}
+            className="border border-fg px-6 py-2 hover:border-primary hover:text-primary disabled:opacity-20"
+          >
+            export calendar (.ics)
+          </button>
+        </div>
+        <label className="border border-fg px-6 py-2 hover:border-primary hover:text-primary cursor-pointer">
+          import json
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      <h3 className="text-2xl mt-12 mb-6">projects</h3>
+      <div className="flex flex-col space-y-4">
+        {settings.projects.map((p) => (
+          <div
+            key={p}
+            className="flex items-center justify-between bg-surface p-6 border border-fg"
+          >
+            <span className="text-xl">{p}</span>
+            <button
+              onClick={() => updateSettings({ projects: settings.projects.filter((x) => x !== p) })}
+              className="text-fg hover:text-primary"
+              title="remove (logged time keeps its project)"
+            >
+              <i className="fas fa-xmark"></i>
+            </button>
+          </div>
+        ))}
+        <div className="flex space-x-4">
+          <input
+            value={newProject}
+            onChange={(e) => setNewProject(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addProject()}
+            placeholder="new project"
+            className="flex-1 bg-raised border border-fg p-4 text-xl focus:border-primary"
+          />
+          <button
+            onClick={addProject}
+            disabled={!newProject.trim()}
+            className="bg-primary text-page text-xl px-8 disabled:opacity-20"
+          >
+            add
+          </button>
+        </div>
       </div>
     </div>
   );
 };
 
 // ---------------------------------------------------------
-// PROGRESS VIEW
+// KEYBOARD SHORTCUTS
 // ---------------------------------------------------------
 
-const ProgressView = ({ logs }: { logs: WorkLog[] }) => {
-  const todayKey = getTodayKey();
-  const now = new Date();
-
-  const todayTotal = logs
-    .filter((l) => new Date(l.timestamp).toLocaleDateString("en-CA") === todayKey)
-    .reduce((a, b) => a + b.durationSeconds, 0);
+// listed in the help overlay; the handling itself lives in App
+const SHORTCUTS = [
+  { keys: "space", label: "start / pause" },
+  { keys: "r", label: "reset" },
+  { keys: "1 / 2 / 3", label: "work / break / long break" },
+  { keys: "t / j / p", label: "timer / end of day / progress" },
+  { keys: "ctrl k", label: "command palette" },
+  { keys: "?", label: "this help" },
+  { keys: "esc", label: "close" },
+];
 
-  const oneWeekAgo = new Date();
-  oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+// keys typed into a field belong to the field
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
 
-  const weekTotal = logs
-    .filter((l) => l.timestamp >= oneWeekAgo.getTime())
-    .reduce((a, b) => a + b.durationSeconds, 0);
-
-  const monthTotal = logs
-    .filter((l) => {
-      const d = new Date(l.timestamp);
-      return d.getMonth() === now.getMonth() && d.getFullYear() === now.getFullYear();
-    })
-    .reduce((a, b) => a + b.durationSeconds, 0);
+interface Command {
+  id: string;
+  label: string;
+  run: () => void;
+}
 
-  return (
-    <div className="max-w-5xl mx-auto pt-10 p-6">
-      <h2 className="text-4xl mb-12 border-l-4 border-[#ff10f0] pl-6">
-        progress
-      </h2>
+const Overlay = ({ onClose, children }: { onClose: () => void; children: React.ReactNode }) => (
+  <div
+    className="fixed inset-0 z-50 bg-page/80 flex items-start justify-center p-4 pt-32"
+    onClick={onClose}
+  >
+    <div
+      className="w-full max-w-lg bg-page border border-fg"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {children}
+    </div>
+  </div>
+);
 
-      <div className="grid md:grid-cols-3 gap-6">
-        {[{ label: "today", val: todayTotal }, { label: "this week", val: weekTotal }, { label: "this month", val: monthTotal }].map((stat) => (
-          <div
-            key={stat.label}
-            className="bg-[#050505] border p-10 hover:border-[#ff10f0]"
-          >
-            <h3 className="text-xl mb-4">{stat.label}</h3>
-            <p className="text-6xl font-light">{formatDuration(stat.val)}</p>
+const ShortcutHelp = ({ onClose }: { onClose: () => void }) => (
+  <Overlay onClose={onClose}>
+    <div className="p-8">
+      <h2 className="text-3xl mb-8 border-l-4 border-primary pl-4">shortcuts</h2>
+      <div className="flex flex-col space-y-3 text-lg">
+        {SHORTCUTS.map((s) => (
+          <div key={s.keys} className="flex justify-between">
+            <span>{s.label}</span>
+            <kbd className="border border-fg px-2 text-primary">{s.keys}</kbd>
           </div>
         ))}
       </div>
     </div>
+  </Overlay>
+);
+
+// `dateCommand` turns a typed date (YYYY-MM-DD, "today", "yesterday") into a command
+const CommandPalette = ({
+  commands,
+  dateCommand,
+  today,
+  onClose,
+}: {
+  commands: Command[];
+  dateCommand: (date: string) => Command;
+  today: string; // in the user's calendar
+  onClose: () => void;
+}) => {
+  const [text, setText] = useState("");
+  const [active, setActive] = useState(0);
+
+  const q = text.trim().toLowerCase();
+  const typedDate =
+    q === "today"
+      ? today
+      : q === "yesterday"
+        ? shiftDay(today, -1)
+        : isDayKey(q) && q <= today
+          ? q
+          : null;
+  const matches = [
+    ...(typedDate ? [dateCommand(typedDate)] : []),
+    ...commands.filter((c) => c.label.includes(q)),
+  ];
+
+  const run = (c: Command | undefined) => {
+    if (!c) return;
+    onClose();
+    c.run();
+  };
+
+  return (
+    <Overlay onClose={onClose}>
+      <input
+        autoFocus
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setActive(0);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+          else if (e.key === "Enter") run(matches[active]);
+          else if (e.key === "ArrowDown") setActive(Math.min(active + 1, matches.length - 1));
+          else if (e.key === "ArrowUp") setActive(Math.max(active - 1, 0));
+          else return;
+          e.preventDefault();
+        }}
+        placeholder="type a command or a date (yyyy-mm-dd)"
+        className="w-full bg-raised border-b border-fg p-5 text-xl focus:outline-none"
+      />
+      <div className="max-h-80 overflow-y-auto">
+        {matches.length === 0 ? (
+          <p className="p-5 text-lg opacity-60">no matching command.</p>
+        ) : (
+          matches.map((c, i) => (
+            <button
+              key={c.id}
+              onClick={() => run(c)}
+              onMouseEnter={() => setActive(i)}
+              className={`w-full text-left px-5 py-3 text-lg ${
+                i === active ? "bg-primary text-page" : ""
+              }`}
+            >
+              {c.label}
+            </button>
+          ))
+        )}
+      </div>
+    </Overlay>
   );
 };
 
@@ -528,14 +4631,17 @@ const ProgressView = ({ logs }: { logs: WorkLog[] }) => {
 // ---------------------------------------------------------
 
 const App = () => {
-  const [view, setView] = useState<View>("timer");
+  const [route, navigate] = useRoute();
+  const view = route.view;
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [user, setUser] = useState<FirebaseUser | null>(null);
 
   const [logs, setLogs] = useState<WorkLog[]>([]);
   const [journals, setJournals] = useState<DailyJournal[]>([]);
-  const [settings, setSettings] = useState<UserSettings>({ startDate: Date.now() });
-  const [streak, setStreak] = useState(0);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(defaultSettings);
+  // true once logs and journals have arrived, so nothing is shared from empty lists
+  const [synced, setSynced] = useState(false);
 
   // Listen for login
   useEffect(() => {
@@ -545,116 +4651,291 @@ const App = () => {
     return () => unsub();
   }, []);
 
-  // Fetch logs + journals when user changes
-  useEffect(() => {
-    if (!user || !isFirebaseInitialized) {
-      setLogs([]);
-      setJournals([]);
-      setStreak(0);
-      return;
-    }
-
-    const logsRef = collection(db, "users", user.uid, "logs");
-    const unsubLogs = onSnapshot(
-      query(logsRef, orderBy("timestamp", "desc")),
-      (snap) => setLogs(snap.docs.map((d) => d.data() as WorkLog))
-    );
+  // signed-in users sync through firestore, everyone else stays in the browser
+  const storage = useMemo<StorageBackend>(
+    () => (user && isFirebaseInitialized ? createFirestoreBackend(user.uid) : createLocalBackend()),
+    [user]
+  );
 
-    const journRef = collection(db, "users", user.uid, "journals");
-    const unsubJourn = onSnapshot(journRef, (snap) => {
-      const arr = snap.docs.map((d) => d.data() as DailyJournal);
-      arr.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      setJournals(arr);
+  // Fetch logs + journals + settings when the backend changes
+  useEffect(() => {
+    let gotLogs = false;
+    let gotJournals = false;
+    setSynced(false);
+    const unsubLogs = storage.subscribeLogs((l) => {
+      setLogs(l);
+      gotLogs = true;
+      if (gotJournals) setSynced(true);
     });
-
-    const settingsRef = doc(db, "users", user.uid, "settings", "general");
-    getDoc(settingsRef).then((s) => {
-      if (s.exists()) setSettings(s.data() as UserSettings);
-      else setDoc(settingsRef, settings);
+    const unsubJourn = storage.subscribeJournals((j) => {
+      setJournals(j);
+      gotJournals = true;
+      if (gotLogs) setSynced(true);
     });
+    const unsubTasks = storage.subscribeTasks(setTasks);
+    const unsubSettings = storage.subscribeSettings(defaultSettings(), setSettings);
 
     return () => {
       unsubLogs();
       unsubJourn();
+      unsubTasks();
+      unsubSettings();
     };
-  }, [user]);
+  }, [storage]);
 
-  // Streak
+  // swap the palette, and the browser chrome with it
   useEffect(() => {
-    if (journals.length === 0) return setStreak(0);
+    const root = document.documentElement;
+    root.dataset.theme = settings.theme;
+    const page = getComputedStyle(root).getPropertyValue("--color-page").trim();
+    if (page) document.querySelector('meta[name="theme-color"]')?.setAttribute("content", `rgb(${page})`);
+  }, [settings.theme]);
+
+  const { calendar } = settings;
+  const today = todayKey(calendar);
+
+  const totalsByDay = useMemo(() => dailyTotals(logs, calendar), [logs, calendar]);
+
+  const streak = useMemo(
+    () =>
+      computeStreaks(journals, {
+        today,
+        minRating: STREAK_MIN_RATING,
+        freezesPerMonth: settings.streakFreezesPerMonth,
+        isRestDay: (key) => isRestDay(settings.goals, key),
+      }),
+    [journals, today, settings.streakFreezesPerMonth, settings.goals]
+  );
+
+  const teamStats = (): TeamStats => ({
+    weeks: weeklyAggregates(logs, calendar),
+    streak: streak.current,
+    bestStreak: streak.best,
+  });
 
-    let current = 0;
-    for (const j of journals) {
-      if (j.rating >= 3) current++;
-      else break;
+  // keep every team's copy of our totals current
+  useEffect(() => {
+    if (!user || !synced) return;
+    for (const id of settings.teams) {
+      publishTeamStats(id, user.uid, teamStats()).catch((err) =>
+        console.error(`publishing to team ${id} failed:`, err)
+      );
     }
-    setStreak(current);
-  }, [journals]);
+  }, [user, synced, logs, streak, settings.teams]);
 
   const handleLogin = async () => {
     if (!isFirebaseInitialized) return alert("firebase not initialized.");
     try {
-      await signInWithPopup(auth, new GoogleAuthProvider());
+      const cred = await signInWithPopup(auth, new GoogleAuthProvider());
+      const merged = await offerGuestMerge(cred.user.uid);
+      if (merged) setSettings(merged);
     } catch (err) {
       console.error(err);
     }
   };
 
-  const handleLogout = async () => signOut(auth);
+  const handleLogout = async () => {
+    // a room is tied to the account, so it doesn't follow into the next one
+    await room.leave();
+    return signOut(auth);
+  };
 
-  const addWorkLog = async (seconds: number) => {
-    if (!user) return alert("Please login.");
+  // the views don't wait on storage, so a failed write is reported here
+  const reportSaveError = (what: string) => (err: unknown) => {
+    console.error(`saving ${what} failed:`, err);
+    alert(`couldn't save ${what}. please try again.`);
+  };
 
-    const newLog: WorkLog = {
-      id: Date.now() + "",
-      timestamp: Date.now(),
-      durationSeconds: seconds,
-    };
+  const addWorkLog = (entry: NewWorkLog) =>
+    storage.saveLog({ ...entry, id: entry.id ?? newLogId() }).catch(reportSaveError("that session"));
+
+  const updateWorkLog = (log: WorkLog) => storage.saveLog(log).catch(reportSaveError("that session"));
+
+  const deleteWorkLog = (id: string) => storage.deleteLog(id).catch(reportSaveError("the deletion"));
+
+  // lives here rather than in TimerView so a session keeps running across views
+  const timer = useFocusTimer(settings.timer, settings.alerts, addWorkLog);
+
+  const room = useRoom(user, timer.project, settings.timer, settings.alerts, addWorkLog);
 
-    await setDoc(doc(db, "users", user.uid, "logs", newLog.id), newLog);
+  // Screen readers only hear changes to a live region that was already on the
+  // page, so one stays mounted here whichever view is open; the latest wins.
+  const [announcement, setAnnouncement] = useState("");
+  useEffect(() => setAnnouncement(timer.announcement), [timer.announcement]);
+  useEffect(() => setAnnouncement(room.announcement), [room.announcement]);
+
+  const updateSettings = async (patch: Partial<UserSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    await storage.saveSettings(next).catch(reportSaveError("your settings"));
+  };
+
+  const createAndJoinTeam = async (name: string) => {
+    if (!user) return null;
+    try {
+      const id = await createTeam(user, name);
+      await joinTeam(id, user, teamStats());
+      await updateSettings({ teams: [...settings.teams, id] });
+      return id;
+    } catch (err) {
+      console.error("creating a team failed:", err);
+      alert("couldn't start the team. are you online?");
+      return null;
+    }
   };
 
-  const saveJournalEntry = async (highlight: string, rating: number) => {
-    if (!user) return alert("Please login.");
+  const enterTeam = async (code: string) => {
+    const id = normaliseInviteCode(code);
+    if (!user || !id) return false;
+    if (settings.teams.includes(id)) return true;
+    try {
+      if (!(await joinTeam(id, user, teamStats()))) {
+        alert(`there's no team ${id}.`);
+        return false;
+      }
+      await updateSettings({ teams: [...settings.teams, id] });
+      return true;
+    } catch (err) {
+      console.error("joining a team failed:", err);
+      alert("couldn't join the team. are you online?");
+      return false;
+    }
+  };
 
-    const today = getTodayKey();
-    const entry: DailyJournal = { date: today, highlight, rating };
+  const exitTeam = async (id: string) => {
+    await updateSettings({ teams: settings.teams.filter((t) => t !== id) });
+    if (!user) return;
+    try {
+      await leaveTeam(id, user.uid);
+    } catch (err) {
+      console.error("leaving the team failed:", err);
+    }
+  };
 
-    await setDoc(doc(db, "users", user.uid, "journals", today), entry);
+  const importFile = async (file: File) => {
+    try {
+      const parsed = parseExport(await file.text());
+      const added = await importRecords(storage, parsed);
+      if (parsed.settings && confirm("also replace your settings with the ones in the file?")) {
+        await updateSettings(withDefaults(parsed.settings, settings));
+      }
+      alert(
+        `imported ${added.logs} sessions, ${added.journals} journal entries and ${added.tasks} tasks.` +
+          (parsed.invalid ? ` skipped ${parsed.invalid} invalid records.` : "")
+      );
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "import failed.");
+    }
   };
 
-  const getTodaySeconds = () =>
-    logs
-      .filter((l) => new Date(l.timestamp).toLocaleDateString("en-CA") === getTodayKey())
-      .reduce((a, b) => a + b.durationSeconds, 0);
+  const saveJournalEntry = (entry: DailyJournal) =>
+    storage.saveJournal(entry).catch(reportSaveError("your journal"));
 
-  const getDaysActive = () => {
-    const ms = 1000 * 60 * 60 * 24;
-    return Math.floor((Date.now() - settings.startDate) / ms) + 1;
+  const getDaySeconds = (key: string) => totalsByDay.get(key) ?? 0;
+
+  const getGoal = (key: string) =>
+    dailyGoal(settings.goals, key, daysActive(settings.startDate, key, calendar));
+
+  const saveTask = (task: Task) => storage.saveTask(task).catch(reportSaveError("that task"));
+
+  const deleteTask = (id: string) => {
+    if (timer.taskId === id) timer.setTaskId(null);
+    return storage.deleteTask(id).catch(reportSaveError("the deletion"));
   };
 
-  const getTodayEntry = () => journals.find((j) => j.date === getTodayKey());
+  const getFinishedTasks = (key: string) =>
+    tasks.filter((t) => t.completedAt && dayKey(t.completedAt, calendar) === key);
+
+  const getEntry = (key: string) => journals.find((j) => j.date === key);
+
+  // the journal view shows today unless a past day is in the url
+  const journalDate = route.date && route.date < today ? route.date : undefined;
+  const journalKey = journalDate ?? today;
+
+  const openView = (v: View) => navigate({ view: v });
+
+  const openJournalDay = (date: string) =>
+    navigate(date < today ? { view: "journal", date } : { view: "journal" });
+
+  const [overlay, setOverlay] = useState<"palette" | "help" | "log" | null>(null);
+
+  const commands: Command[] = [
+    { id: "toggle", label: timer.isActive ? "pause timer" : "start timer", run: timer.toggleTimer },
+    { id: "reset", label: "reset timer", run: timer.resetTimer },
+    { id: "focus", label: "switch to work", run: () => timer.setTimerMode("focus") },
+    { id: "short", label: "switch to break", run: () => timer.setTimerMode("short") },
+    { id: "long", label: "switch to long break", run: () => timer.setTimerMode("long") },
+    { id: "manual", label: "add manual log", run: () => setOverlay("log") },
+    { id: "view-timer", label: "go to timer", run: () => openView("timer") },
+    { id: "view-tasks", label: "go to tasks", run: () => openView("tasks") },
+    { id: "view-room", label: "go to room", run: () => openView("room") },
+    { id: "view-team", label: "go to team", run: () => openView("team") },
+    { id: "view-journal", label: "go to end of day", run: () => openView("journal") },
+    { id: "view-journals", label: "go to journal history", run: () => openView("journals") },
+    { id: "view-progress", label: "go to progress", run: () => openView("progress") },
+    { id: "view-history", label: "go to history", run: () => openView("history") },
+    { id: "view-settings", label: "go to settings", run: () => openView("settings") },
+    { id: "help", label: "show keyboard shortcuts", run: () => setOverlay("help") },
+  ];
+
+  // re-registered every render so the handlers always see the current state
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOverlay(overlay === "palette" ? null : "palette");
+        return;
+      }
+      if (e.key === "Escape") {
+        setOverlay(null);
+        return;
+      }
+      if (overlay || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+
+      const actions: Record<string, () => void> = {
+        " ": timer.toggleTimer,
+        r: timer.resetTimer,
+        "1": () => timer.setTimerMode("focus"),
+        "2": () => timer.setTimerMode("short"),
+        "3": () => timer.setTimerMode("long"),
+        t: () => openView("timer"),
+        j: () => openView("journal"),
+        p: () => openView("progress"),
+        "?": () => setOverlay("help"),
+      };
+      const action = actions[e.key.toLowerCase()];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
 
   return (
-    <div className="min-h-screen bg-black text-[#f0f0f0] selection:bg-[#ff10f0] selection:text-black lowercase">
+    <div className="min-h-screen bg-page text-fg selection:bg-primary selection:text-page">
       {/* NAV */}
-      <header className="fixed top-0 left-0 w-full h-16 flex items-center justify-between px-6 z-50 bg-black border-b border-[#f0f0f0]">
+      <header className="fixed top-0 left-0 w-full h-16 flex items-center justify-between px-6 z-50 bg-page border-b border-fg">
         <div className="flex items-center space-x-6">
           <button
             onClick={() => setSidebarOpen(!sidebarOpen)}
-            className="text-[#f0f0f0] hover:text-[#ff10f0]"
+            aria-label="menu"
+            aria-expanded={sidebarOpen}
+            className="text-fg hover:text-primary"
           >
             <i className="fas fa-bars text-xl"></i>
           </button>
           <h1 className="text-2xl hidden md:block">
-            pomo<span className="text-[#ff10f0]">neon</span>
+            pomo<span className="text-primary">neon</span>
           </h1>
         </div>
 
         <div className="flex items-center space-x-3 border-l pl-4">
           <span className="text-lg">streak</span>
-          <span className="text-2xl text-[#ff10f0]">{streak}</span>
-          <i className="fas fa-fire text-[#ff10f0]"></i>
+          <span className="text-2xl text-primary">{streak.current}</span>
+          <i className="fas fa-fire text-primary"></i>
+          <span className="text-lg opacity-60 hidden sm:inline">best {streak.best}</span>
         </div>
       </header>
 
@@ -662,7 +4943,7 @@ const App = () => {
       <Sidebar
         isOpen={sidebarOpen}
         currentView={view}
-        setView={setView}
+        setView={openView}
         closeSidebar={() => setSidebarOpen(false)}
         user={user}
         handleLogin={handleLogin}
@@ -675,19 +4956,150 @@ const App = () => {
           sidebarOpen ? "md:ml-64" : ""
         }`}
       >
-        {view === "timer" && <TimerView addWorkLog={addWorkLog} />}
+        <p role="status" className="sr-only">
+          {announcement}
+        </p>
+
+        {view === "timer" && (
+          <TimerView
+            timer={timer}
+            addWorkLog={addWorkLog}
+            timerSettings={settings.timer}
+            projects={settings.projects}
+            tasks={tasks}
+            calendar={calendar}
+            suggestedTask={
+              getDaySeconds(today) === 0
+                ? getEntry(shiftDay(today, -1))?.tomorrow
+                : undefined
+            }
+          />
+        )}
+        {view === "room" && (
+          <RoomView room={room} signedIn={!!user} invite={route.invite} onLogin={handleLogin} />
+        )}
+        {view === "team" && (
+          <TeamView
+            uid={user?.uid ?? null}
+            calendar={calendar}
+            teamIds={settings.teams}
+            invite={route.invite}
+            onLogin={handleLogin}
+            onCreate={createAndJoinTeam}
+            onJoin={enterTeam}
+            onLeave={exitTeam}
+          />
+        )}
+        {view === "tasks" && (
+          <TasksView
+            tasks={tasks}
+            logs={logs}
+            activeTaskId={timer.taskId}
+            saveTask={saveTask}
+            deleteTask={deleteTask}
+            startTask={(id) => {
+              timer.setTaskId(id);
+              openView("timer");
+            }}
+          />
+        )}
         {view === "journal" && (
           <JournalView
-            secondsWorkedToday={getTodaySeconds()}
-            daysActive={getDaysActive()}
+            date={journalKey}
+            today={today}
+            secondsWorked={getDaySeconds(journalKey)}
+            goal={getGoal(journalKey)}
+            prompts={settings.journalPrompts}
+            finishedTasks={getFinishedTasks(journalKey)}
             saveEntry={saveJournalEntry}
-            existingEntry={getTodayEntry()}
+            existingEntry={getEntry(journalKey)}
+            onBack={journalDate ? () => openView("journals") : undefined}
+          />
+        )}
+        {view === "journals" && (
+          <JournalHistoryView
+            journals={journals}
+            logs={logs}
+            calendar={calendar}
+            openDay={openJournalDay}
+          />
+        )}
+        {view === "progress" && (
+          <ProgressView
+            logs={logs}
+            journals={journals}
+            streak={streak}
+            freezesPerMonth={settings.streakFreezesPerMonth}
+            goalFor={getGoal}
+            chartRange={route.range ?? "week"}
+            setChartRange={(range) => navigate({ view: "progress", range }, true)}
+            tasks={tasks}
+            calendar={calendar}
+          />
+        )}
+        {view === "history" && (
+          <LogHistoryView
+            logs={logs}
+            projects={settings.projects}
+            calendar={calendar}
+            addWorkLog={addWorkLog}
+            updateWorkLog={updateWorkLog}
+            deleteWorkLog={deleteWorkLog}
+          />
+        )}
+        {view === "settings" && (
+          <SettingsView
+            settings={settings}
+            updateSettings={updateSettings}
+            logs={logs}
+            journals={journals}
+            tasks={tasks}
+            importFile={importFile}
           />
         )}
-        {view === "progress" && <ProgressView logs={logs} />}
       </main>
+
+      {overlay === "palette" && (
+        <CommandPalette
+          commands={commands}
+          dateCommand={(date) => ({
+            id: `date-${date}`,
+            label: `open ${date}`,
+            run: () => openJournalDay(date),
+          })}
+          today={today}
+          onClose={() => setOverlay(null)}
+        />
+      )}
+      {overlay === "help" && <ShortcutHelp onClose={() => setOverlay(null)} />}
+      {overlay === "log" && (
+        <LogFormModal
+          projects={settings.projects}
+          calendar={calendar}
+          defaultProject={timer.project}
+          onSave={(entry) => {
+            addWorkLog(entry);
+            setOverlay(null);
+          }}
+          onClose={() => setOverlay(null)}
+        />
+      )}
     </div>
   );
 };
 
-createRoot(document.getElementById("root")!).render(<App />);
+// main.tsx mounts the app; the rest is exported for the tests
+export {
+  App,
+  TimerView,
+  JournalView,
+  ProgressView,
+  LogFormModal,
+  mergeGuestData,
+  logsToIcs,
+  useFocusTimer,
+  DEFAULT_TIMER_SETTINGS,
+  DEFAULT_ALERT_SETTINGS,
+  parseExport,
+};
+export type { WorkLog, NewWorkLog, DailyJournal, DailyGoal, Task };
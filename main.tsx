@@ -0,0 +1,9 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import { registerSW } from "virtual:pwa-register";
+import { App } from "./index";
+
+// service worker for the offline shell; picks up new builds on the next load
+registerSW({ immediate: true });
+
+createRoot(document.getElementById("root")!).render(<App />);
@@ -0,0 +1,282 @@
+// ---------------------------------------------------------
+// STATS
+// ---------------------------------------------------------
+
+// Date bucketing and the numbers built on it: totals, ratings and streaks.
+// Plain TypeScript with no React, Firebase or ambient time zone - every
+// function gets the Calendar it should count in, so the views, the team
+// aggregates and the tests all agree on what "today" and "this week" are.
+
+export interface Calendar {
+  weekStartsOn: number; // 0 = sunday ... 6 = saturday
+  timeZone?: string; // IANA name, e.g. "Europe/Berlin"; absent = the device's zone
+}
+
+export const DEFAULT_CALENDAR: Calendar = { weekStartsOn: 0 };
+
+export type DayKey = string; // YYYY-MM-DD
+
+export type Period = "day" | "week" | "month";
+
+// the fields stats reads from a WorkLog; timestamp is when the session ended
+export interface TimedLog {
+  timestamp: number;
+  durationSeconds: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------
+// DAYS
+// ---------------------------------------------------------
+
+// building a DateTimeFormat is slow and the same few zones come up every time
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string | undefined) => {
+  const id = timeZone ?? "";
+  let formatter = formatters.get(id);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(id, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// wall-clock time at `ms` in the calendar's zone
+const wallClock = (ms: number, cal: Calendar) => {
+  const parts: Record<string, string> = {};
+  for (const p of formatterFor(cal.timeZone).formatToParts(ms)) parts[p.type] = p.value;
+  return {
+    key: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour) % 24, // some engines still say 24 at midnight
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+export const dayKey = (ms: number, cal: Calendar): DayKey => wallClock(ms, cal).key;
+
+export const todayKey = (cal: Calendar, now = Date.now()) => dayKey(now, cal);
+
+export const hourOf = (ms: number, cal: Calendar) => wallClock(ms, cal).hour;
+
+// Day keys are calendar dates, not instants, so the arithmetic below happens
+// on UTC midnights where every day is 24 hours long.
+const utcOf = (key: DayKey) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+const keyOfUtc = (ms: number): DayKey => new Date(ms).toISOString().slice(0, 10);
+
+export const shiftDay = (key: DayKey, days: number) => keyOfUtc(utcOf(key) + days * DAY_MS);
+
+// the first day of the month `months` away from key's month
+export const shiftMonth = (key: DayKey, months: number) => {
+  const [y, m] = key.split("-").map(Number);
+  return keyOfUtc(Date.UTC(y, m - 1 + months, 1));
+};
+
+const pad2 = (n: number) => n.toString().padStart(2, "0");
+
+// "HH:MM" at `ms` in the calendar's zone
+export const timeOf = (ms: number, cal: Calendar) => {
+  const clock = wallClock(ms, cal);
+  return `${pad2(clock.hour)}:${pad2(clock.minute)}`;
+};
+
+// The instant a wall-clock "HH:MM" on `key` happens in the calendar's zone.
+// The zone's offset is read at a first guess and again at the result, which
+// settles it when a DST change falls in between.
+export const fromWallClock = (key: DayKey, time: string, cal: Calendar) => {
+  const [h, m] = time.split(":").map(Number);
+  const target = utcOf(key) + (h * 60 + m) * 60 * 1000;
+  const offsetAt = (ms: number) => {
+    const clock = wallClock(ms, cal);
+    const asUtc = utcOf(clock.key) + ((clock.hour * 60 + clock.minute) * 60 + clock.second) * 1000;
+    return asUtc - (ms - (ms % 1000));
+  };
+  const guess = target - offsetAt(target);
+  return target - offsetAt(guess);
+};
+
+// 0 = sunday, like Date.getDay
+export const weekdayOf = (key: DayKey) => new Date(utcOf(key)).getUTCDay();
+
+export const daysBetween = (from: DayKey, to: DayKey) => Math.round((utcOf(to) - utcOf(from)) / DAY_MS);
+
+// ---------------------------------------------------------
+// PERIODS
+// ---------------------------------------------------------
+
+// Weeks and months are both calendar periods: "this week" starts on the
+// calendar's week start, "this month" on the 1st.
+export const periodStart = (key: DayKey, period: Period, cal: Calendar): DayKey => {
+  if (period === "day") return key;
+  if (period === "week") return shiftDay(key, -((weekdayOf(key) - cal.weekStartsOn + 7) % 7));
+  return `${key.slice(0, 8)}01`;
+};
+
+export const periodEnd = (key: DayKey, period: Period, cal: Calendar): DayKey => {
+  const start = periodStart(key, period, cal);
+  if (period === "day") return start;
+  if (period === "week") return shiftDay(start, 6);
+  return shiftDay(shiftMonth(start, 1), -1);
+};
+
+// every day of the period that contains key
+export const periodDays = (key: DayKey, period: Period, cal: Calendar) => {
+  const days: DayKey[] = [];
+  const end = periodEnd(key, period, cal);
+  for (let d = periodStart(key, period, cal); d <= end; d = shiftDay(d, 1)) days.push(d);
+  return days;
+};
+
+export const inPeriod = (key: DayKey, period: Period, ref: DayKey, cal: Calendar) =>
+  key >= periodStart(ref, period, cal) && key <= periodEnd(ref, period, cal);
+
+// weekday numbers in the order the calendar's week runs
+export const weekdayOrder = (cal: Calendar) =>
+  Array.from({ length: 7 }, (_, i) => (cal.weekStartsOn + i) % 7);
+
+// ---------------------------------------------------------
+// TOTALS
+// ---------------------------------------------------------
+
+// seconds worked per day key
+export const dailyTotals = (logs: TimedLog[], cal: Calendar) => {
+  const totals = new Map<DayKey, number>();
+  for (const l of logs) {
+    const key = dayKey(l.timestamp, cal);
+    totals.set(key, (totals.get(key) ?? 0) + l.durationSeconds);
+  }
+  return totals;
+};
+
+// seconds worked in the period that contains `ref`
+export const periodTotal = (logs: TimedLog[], period: Period, ref: DayKey, cal: Calendar) => {
+  const start = periodStart(ref, period, cal);
+  const end = periodEnd(ref, period, cal);
+  let total = 0;
+  for (const l of logs) {
+    const key = dayKey(l.timestamp, cal);
+    if (key >= start && key <= end) total += l.durationSeconds;
+  }
+  return total;
+};
+
+// Splits each session over the clock hours it actually ran in. Implausibly
+// long logs land on the hour they ended in.
+export const hourlyTotals = (logs: TimedLog[], cal: Calendar) => {
+  const buckets = new Array(24).fill(0) as number[];
+  for (const l of logs) {
+    const end = l.timestamp;
+    if (l.durationSeconds > DAY_MS / 1000) {
+      buckets[hourOf(end, cal)] += l.durationSeconds;
+      continue;
+    }
+    let t = end - l.durationSeconds * 1000;
+    while (t < end) {
+      const clock = wallClock(t, cal);
+      const nextHour = t - (t % 1000) + ((60 - clock.minute) * 60 - clock.second) * 1000;
+      const segEnd = Math.min(end, nextHour);
+      buckets[clock.hour] += (segEnd - t) / 1000;
+      t = segEnd;
+    }
+  }
+  return buckets;
+};
+
+// seconds per weekday, indexed like Date.getDay (0 = sunday)
+export const weekdayTotals = (logs: TimedLog[], cal: Calendar) => {
+  const buckets = new Array(7).fill(0) as number[];
+  for (const l of logs) buckets[weekdayOf(dayKey(l.timestamp, cal))] += l.durationSeconds;
+  return buckets;
+};
+
+// `daysActive` is 1 on the day tracking started
+export const daysActive = (startedAt: number, key: DayKey, cal: Calendar) =>
+  Math.max(daysBetween(dayKey(startedAt, cal), key) + 1, 1);
+
+// ---------------------------------------------------------
+// RATINGS AND STREAKS
+// ---------------------------------------------------------
+
+// worked ÷ goal × 5, rounded, capped at 5. Any work on a rest day (goal 0) is a 5.
+export const ratingFor = (secondsWorked: number, goalSeconds: number) => {
+  if (goalSeconds === 0) return secondsWorked > 0 ? 5 : 0;
+  return Math.min(Math.round((secondsWorked / goalSeconds) * 5), 5);
+};
+
+export interface RatedDay {
+  date: DayKey;
+  rating: number;
+}
+
+export interface StreakOptions {
+  today: DayKey;
+  minRating: number;
+  freezesPerMonth: number;
+  isRestDay?: (key: DayKey) => boolean;
+}
+
+export interface StreakStats {
+  current: number;
+  best: number;
+  freezesUsedThisMonth: number;
+}
+
+// Walks every calendar day from the first rated day up to today. A day counts
+// when it is rated minRating or more; a missed day breaks the run unless it is
+// a rest day or a freeze is left for that month, in which case it is bridged
+// but not counted. Today only ever adds to the streak - not having rated it
+// yet is not a miss.
+export const computeStreaks = (days: RatedDay[], opts: StreakOptions): StreakStats => {
+  const { today, minRating, freezesPerMonth, isRestDay = () => false } = opts;
+  const good = new Set(days.filter((d) => d.rating >= minRating).map((d) => d.date));
+  const keys = days.map((d) => d.date).filter((k) => k <= today).sort();
+  if (keys.length === 0) return { current: 0, best: 0, freezesUsedThisMonth: 0 };
+
+  const freezesUsed = new Map<string, number>(); // YYYY-MM -> count
+  let current = 0;
+  let best = 0;
+
+  for (let key = keys[0]; key <= today; key = shiftDay(key, 1)) {
+    if (good.has(key)) {
+      current++;
+      best = Math.max(best, current);
+      continue;
+    }
+    if (key === today || current === 0 || isRestDay(key)) continue;
+
+    const month = key.slice(0, 7);
+    const used = freezesUsed.get(month) ?? 0;
+    if (used < freezesPerMonth) freezesUsed.set(month, used + 1);
+    else current = 0;
+  }
+
+  return {
+    current,
+    best,
+    freezesUsedThisMonth: freezesUsed.get(today.slice(0, 7)) ?? 0,
+  };
+};
@@ -0,0 +1,21 @@
+/** @type {import('tailwindcss').Config} */
+const themed = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+
+export default {
+  content: ["./index.html", "./*.{ts,tsx}"],
+  theme: {
+    extend: {
+      // set per theme in index.css
+      colors: {
+        page: themed("page"),
+        surface: themed("surface"),
+        raised: themed("raised"),
+        faint: themed("faint"),
+        line: themed("line"),
+        fg: themed("fg"),
+        primary: themed("primary"),
+      },
+    },
+  },
+  plugins: [],
+}
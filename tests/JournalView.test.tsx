@@ -0,0 +1,108 @@
+import React from "react";
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { JournalView, type DailyJournal, type DailyGoal } from "../index";
+
+const goal: DailyGoal = { seconds: 5 * 3600, label: "5h on fridays" };
+
+const prompts = [
+  { id: "blockers", question: "what got in the way?" },
+  { id: "learned", question: "what did you learn?" },
+];
+
+const renderJournal = (props: Partial<React.ComponentProps<typeof JournalView>> = {}) =>
+  render(
+    <JournalView
+      date="2024-03-01"
+      today="2024-03-06"
+      secondsWorked={3 * 3600}
+      goal={goal}
+      prompts={prompts}
+      finishedTasks={[]}
+      saveEntry={vi.fn()}
+      existingEntry={undefined}
+      {...props}
+    />
+  );
+
+describe("JournalView", () => {
+  it("needs a highlight before the day can be completed", () => {
+    renderJournal();
+    const complete = screen.getByRole("button", { name: "complete" }) as HTMLButtonElement;
+    expect(complete.disabled).toBe(true);
+
+    fireEvent.change(screen.getByPlaceholderText("what did you achieve that day?"), {
+      target: { value: "wrote the intro" },
+    });
+    expect(complete.disabled).toBe(false);
+  });
+
+  it("takes today from the user's calendar, not the device", () => {
+    renderJournal({ date: "2024-03-06" });
+    expect(screen.getByPlaceholderText("what did you achieve today?")).toBeTruthy();
+    expect(screen.getByText("projected rating")).toBeTruthy();
+  });
+
+  it("rates the day from time worked against the goal", () => {
+    const saveEntry = vi.fn();
+    renderJournal({ saveEntry });
+
+    fireEvent.change(screen.getByPlaceholderText("what did you achieve that day?"), {
+      target: { value: "wrote the intro" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "complete" }));
+
+    // 3h of a 5h goal is 3 stars
+    expect(saveEntry).toHaveBeenCalledWith({ date: "2024-03-01", highlight: "wrote the intro", rating: 3 });
+  });
+
+  it("keeps only answered prompts and normalises tags", () => {
+    const saveEntry = vi.fn();
+    renderJournal({ saveEntry });
+
+    fireEvent.change(screen.getByPlaceholderText("what did you achieve that day?"), {
+      target: { value: "wrote the intro" },
+    });
+    fireEvent.change(screen.getByPlaceholderText("what got in the way?"), {
+      target: { value: "  meetings " },
+    });
+    fireEvent.change(screen.getByPlaceholderText("what did you learn?"), { target: { value: "   " } });
+    fireEvent.change(screen.getByPlaceholderText("tomorrow's top task"), { target: { value: "outline" } });
+    fireEvent.change(screen.getByPlaceholderText("tags, comma separated"), {
+      target: { value: "Writing, deep work, writing," },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "complete" }));
+
+    expect(saveEntry).toHaveBeenCalledWith({
+      date: "2024-03-01",
+      highlight: "wrote the intro",
+      rating: 3,
+      answers: { blockers: "meetings" },
+      tomorrow: "outline",
+      tags: ["writing", "deep work"],
+    });
+  });
+
+  it("shows a saved day with the tasks finished on it", () => {
+    const entry: DailyJournal = {
+      date: "2024-03-01",
+      highlight: "wrote the intro",
+      rating: 4,
+      answers: { blockers: "meetings" },
+      tomorrow: "outline",
+    };
+    renderJournal({
+      existingEntry: entry,
+      finishedTasks: [{ id: "t1", title: "draft chapter 1", estimate: 4, createdAt: 0, completedAt: 1 }],
+    });
+
+    expect(screen.getByText('"wrote the intro"')).toBeTruthy();
+    expect(screen.getByText("draft chapter 1")).toBeTruthy();
+    expect(screen.getByText("meetings")).toBeTruthy();
+    expect(screen.getByText("outline")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "edit" }));
+    expect(screen.getByDisplayValue("wrote the intro")).toBeTruthy();
+    expect(screen.getByRole("button", { name: "save" })).toBeTruthy();
+  });
+});
@@ -0,0 +1,58 @@
+import React from "react";
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { LogFormModal, type WorkLog } from "../index";
+import type { Calendar } from "../stats";
+
+const utc: Calendar = { weekStartsOn: 0, timeZone: "UTC" };
+
+// ended 2024-03-06 09:25:42 utc after 24m 30s
+const log: WorkLog = {
+  id: "log-1",
+  timestamp: Date.UTC(2024, 2, 6, 9, 25, 42),
+  durationSeconds: 24 * 60 + 30,
+  status: "completed",
+  project: "thesis",
+};
+
+const renderEdit = () => {
+  const onSave = vi.fn();
+  render(
+    <LogFormModal initial={log} projects={["thesis", "email"]} calendar={utc} onSave={onSave} onClose={vi.fn()} />
+  );
+  return onSave;
+};
+
+describe("LogFormModal", () => {
+  it("shows the log on the calendar's clock", () => {
+    renderEdit();
+    expect(screen.getByDisplayValue("2024-03-06")).toBeTruthy();
+    expect(screen.getByDisplayValue("09:25")).toBeTruthy();
+    expect(screen.getByDisplayValue("25")).toBeTruthy();
+  });
+
+  it("keeps the exact time and length when only the project changes", () => {
+    const onSave = renderEdit();
+    fireEvent.change(screen.getByDisplayValue("thesis"), { target: { value: "email" } });
+    fireEvent.click(screen.getByRole("button", { name: "save" }));
+
+    expect(onSave).toHaveBeenCalledWith({
+      timestamp: log.timestamp,
+      durationSeconds: log.durationSeconds,
+      status: "completed",
+      project: "email",
+    });
+  });
+
+  it("takes the edited fields as whole minutes", () => {
+    const onSave = renderEdit();
+    fireEvent.change(screen.getByDisplayValue("09:25"), { target: { value: "10:00" } });
+    fireEvent.change(screen.getByDisplayValue("25"), { target: { value: "30" } });
+    fireEvent.click(screen.getByRole("button", { name: "save" }));
+
+    expect(onSave.mock.calls[0][0]).toMatchObject({
+      timestamp: Date.UTC(2024, 2, 6, 10, 0),
+      durationSeconds: 30 * 60,
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { ProgressView, type WorkLog } from "../index";
+import { DEFAULT_CALENDAR } from "../stats";
+
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 2, day, hour, minute).getTime();
+
+// wednesday 6 march 2024, mid-afternoon
+const logs: WorkLog[] = [
+  { id: "a", timestamp: at(6, 10), durationSeconds: 1500, status: "completed", project: "thesis", taskId: "t1" },
+  { id: "b", timestamp: at(6, 11), durationSeconds: 1500, status: "completed", project: "thesis", taskId: "t1" },
+  { id: "c", timestamp: at(6, 12), durationSeconds: 600, status: "interrupted", project: "email" },
+  { id: "d", timestamp: at(4, 9), durationSeconds: 3600, status: "manual" },
+];
+
+const renderProgress = (props: Partial<React.ComponentProps<typeof ProgressView>> = {}) =>
+  render(
+    <ProgressView
+      logs={logs}
+      journals={[]}
+      streak={{ current: 2, best: 5, freezesUsedThisMonth: 0 }}
+      freezesPerMonth={0}
+      goalFor={() => ({ seconds: 2 * 3600, label: "2h" })}
+      chartRange="week"
+      setChartRange={vi.fn()}
+      tasks={[{ id: "t1", title: "draft chapter 1", estimate: 3, createdAt: at(1, 9) }]}
+      calendar={DEFAULT_CALENDAR}
+      {...props}
+    />
+  );
+
+describe("ProgressView", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2024, 2, 6, 15, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("totals today, this week and this month", () => {
+    renderProgress();
+    const card = (label: string) => screen.getByRole("heading", { name: label }).parentElement!;
+    expect(within(card("today")).getByText("1h 0m")).toBeTruthy();
+    expect(within(card("this week")).getByText("2h 0m")).toBeTruthy();
+    expect(within(card("this month")).getByText("2h 0m")).toBeTruthy();
+  });
+
+  it("counts the completion rate over timer sessions only", () => {
+    renderProgress();
+    expect(screen.getByText("67%")).toBeTruthy();
+    expect(screen.getByText("2 completed · 1 interrupted · 1 manual")).toBeTruthy();
+  });
+
+  it("shows streaks, projects and pomodoros per task", () => {
+    renderProgress();
+    const table = (heading: string) => screen.getByRole("heading", { name: heading }).parentElement!;
+
+    expect(within(table("current streak").parentElement!).getByText("2")).toBeTruthy();
+
+    const projects = table("by project");
+    expect(within(projects).getByText("thesis")).toBeTruthy();
+    expect(within(projects).getByText("email")).toBeTruthy();
+    expect(within(projects).getByText("no project")).toBeTruthy();
+
+    const row = within(table("pomodoros per task")).getByText("draft chapter 1").closest("tr")!;
+    expect(within(row).getAllByRole("cell").map((c) => c.textContent)).toEqual([
+      "draft chapter 1",
+      "3",
+      "2",
+      "-1",
+    ]);
+  });
+
+  it("asks for the other chart range and drills into a day", () => {
+    const setChartRange = vi.fn();
+    renderProgress({ setChartRange });
+
+    fireEvent.click(screen.getByRole("button", { name: "month" }));
+    expect(setChartRange).toHaveBeenCalledWith("month");
+
+    fireEvent.click(screen.getAllByTitle("mon: 1h 0m")[0]);
+    expect(screen.getByRole("heading", { name: "2024-03-04" })).toBeTruthy();
+  });
+});
@@ -0,0 +1,154 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import {
+  TimerView,
+  useFocusTimer,
+  DEFAULT_TIMER_SETTINGS,
+  DEFAULT_ALERT_SETTINGS,
+  type NewWorkLog,
+} from "../index";
+import { DEFAULT_CALENDAR } from "../stats";
+
+// TimerView gets its timer and live region from App; this stands in for it
+const Harness = ({ onLog }: { onLog: (entry: NewWorkLog) => void }) => {
+  const timer = useFocusTimer(DEFAULT_TIMER_SETTINGS, DEFAULT_ALERT_SETTINGS, onLog);
+  return (
+    <>
+      <p role="status">{timer.announcement}</p>
+      <TimerView
+        timer={timer}
+        addWorkLog={onLog}
+        timerSettings={DEFAULT_TIMER_SETTINGS}
+        projects={["thesis"]}
+        tasks={[]}
+        calendar={DEFAULT_CALENDAR}
+      />
+    </>
+  );
+};
+
+const playPause = () => fireEvent.click(screen.getByRole("button", { name: /^(start|pause)$/ }));
+
+const advanceMinutes = (minutes: number) => act(() => vi.advanceTimersByTime(minutes * 60 * 1000));
+
+describe("TimerView", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 2, 6, 9, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts at the full focus length and switches modes", () => {
+    render(<Harness onLog={vi.fn()} />);
+    expect(screen.getByText("25:00")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: /^break/ }));
+    expect(screen.getByText("05:00")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: /^long break/ }));
+    expect(screen.getByText("15:00")).toBeTruthy();
+  });
+
+  it("counts down and logs a completed session against the project", () => {
+    const onLog = vi.fn();
+    render(<Harness onLog={onLog} />);
+
+    fireEvent.change(screen.getByDisplayValue("no project"), { target: { value: "thesis" } });
+    playPause();
+    advanceMinutes(10);
+    expect(screen.getByText("15:00")).toBeTruthy();
+    expect(onLog).not.toHaveBeenCalled();
+
+    advanceMinutes(15);
+    expect(onLog).toHaveBeenCalledTimes(1);
+    expect(onLog.mock.calls[0][0]).toMatchObject({
+      durationSeconds: 25 * 60,
+      status: "completed",
+      project: "thesis",
+      timestamp: new Date(2024, 2, 6, 9, 25).getTime(),
+    });
+    expect(screen.getByText("meow")).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe("focus session done. time for a break.");
+    expect(screen.getByRole("button", { name: "start" })).toBeTruthy();
+  });
+
+  it("follows a session started in another tab and names the log after it", () => {
+    const onLog = vi.fn();
+    render(<Harness onLog={onLog} />);
+    const startedAt = Date.now();
+    const theirs = JSON.parse(localStorage.getItem("neonfocus:timer")!);
+
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "neonfocus:timer",
+          newValue: JSON.stringify({ ...theirs, startedAt }),
+        })
+      );
+    });
+    advanceMinutes(5);
+    expect(screen.getByText("20:00")).toBeTruthy();
+    expect(screen.getByRole("button", { name: "pause" })).toBeTruthy();
+
+    advanceMinutes(20);
+    expect(onLog).toHaveBeenCalledTimes(1);
+    // both tabs finishing it write the same log rather than two
+    expect(onLog.mock.calls[0][0].id).toBe(`focus-${startedAt}`);
+  });
+
+  it("records pauses and interruptions on the session's log", () => {
+    const onLog = vi.fn();
+    render(<Harness onLog={onLog} />);
+    expect(screen.queryByRole("button", { name: /internal/ })).toBeNull();
+
+    playPause();
+    advanceMinutes(5);
+    fireEvent.change(screen.getByPlaceholderText(/what pulled you away/), {
+      target: { value: "slack" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: /external/ }));
+    fireEvent.click(screen.getByRole("button", { name: /internal/ }));
+    expect(screen.getByText(/1 internal · 1 external this session/)).toBeTruthy();
+
+    playPause();
+    advanceMinutes(3);
+    playPause();
+    advanceMinutes(20);
+
+    expect(onLog).toHaveBeenCalledTimes(1);
+    const log: NewWorkLog = onLog.mock.calls[0][0];
+    expect(log.interruptions).toEqual([
+      { at: new Date(2024, 2, 6, 9, 5).getTime(), kind: "external", note: "slack" },
+      { at: new Date(2024, 2, 6, 9, 5).getTime(), kind: "internal", note: undefined },
+    ]);
+    expect(log.pauses).toEqual([
+      { pausedAt: new Date(2024, 2, 6, 9, 5).getTime(), resumedAt: new Date(2024, 2, 6, 9, 8).getTime() },
+    ]);
+    // paused time doesn't count towards the session
+    expect(log.timestamp).toBe(new Date(2024, 2, 6, 9, 28).getTime());
+  });
+
+  // last, since what couldn't be stored stays in memory for the rest of the file
+  it("keeps running when the browser won't store anything", () => {
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new DOMException("blocked", "SecurityError");
+    });
+    const alert = vi.spyOn(window, "alert").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const onLog = vi.fn();
+    render(<Harness onLog={onLog} />);
+
+    playPause();
+    advanceMinutes(10);
+    expect(screen.getByText("15:00")).toBeTruthy();
+    expect(alert).toHaveBeenCalledTimes(1);
+
+    advanceMinutes(15);
+    expect(onLog).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+});
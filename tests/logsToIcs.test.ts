@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { logsToIcs } from "../index";
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+describe("logsToIcs", () => {
+  const ics = logsToIcs([
+    {
+      id: "log-1",
+      timestamp: Date.UTC(2024, 2, 6, 9, 25),
+      durationSeconds: 25 * 60,
+      status: "completed",
+      project: "日本語の論文を書く — ".repeat(6) + "ünïcödé",
+    },
+  ]);
+  const lines = ics.split("\r\n");
+
+  it("folds every line to at most 75 octets", () => {
+    expect(lines.some((l) => l.startsWith(" "))).toBe(true);
+    for (const line of lines) expect(octets(line)).toBeLessThanOrEqual(75);
+  });
+
+  it("unfolds back to the original text without breaking characters", () => {
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).toContain(`SUMMARY:focus: ${"日本語の論文を書く — ".repeat(6)}ünïcödé`);
+    expect(unfolded).toContain("DESCRIPTION:0h 25m · completed");
+  });
+
+  it("wraps events in a calendar", () => {
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines.at(-1)).toBe("END:VCALENDAR");
+    expect(lines).toContain("DTSTART:20240306T090000Z");
+    expect(lines).toContain("DTEND:20240306T092500Z");
+  });
+});
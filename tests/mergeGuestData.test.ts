@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { mergeGuestData, type DailyJournal } from "../index";
+
+const merge = (guest: DailyJournal[], cloud: DailyJournal[]) =>
+  mergeGuestData({ logs: [], journals: guest, tasks: [] }, { logs: [], journals: cloud, tasks: [] }).journals;
+
+describe("mergeGuestData", () => {
+  it("uploads journals for dates the cloud doesn't have", () => {
+    const entry: DailyJournal = { date: "2024-03-01", highlight: "outline", rating: 3, tags: ["writing"] };
+    expect(merge([entry], [])).toEqual([entry]);
+  });
+
+  it("keeps everything the guest wrote for a date the cloud already has", () => {
+    const cloud: DailyJournal = {
+      date: "2024-03-01",
+      highlight: "wrote the intro",
+      rating: 3,
+      answers: { blockers: "meetings" },
+      mood: 4,
+      tags: ["writing"],
+    };
+    const guest: DailyJournal = {
+      date: "2024-03-01",
+      highlight: "fixed the charts",
+      rating: 4,
+      answers: { blockers: "email", learned: "recharts" },
+      tomorrow: "outline",
+      mood: 2,
+      energy: 3,
+      tags: ["writing", "code"],
+    };
+
+    expect(merge([guest], [cloud])).toEqual([
+      {
+        date: "2024-03-01",
+        highlight: "wrote the intro\nfixed the charts",
+        rating: 4,
+        // the cloud's answer to a prompt wins; the guest's fills the gaps
+        answers: { blockers: "meetings", learned: "recharts" },
+        mood: 4,
+        tags: ["writing", "code"],
+        tomorrow: "outline",
+        energy: 3,
+      },
+    ]);
+  });
+
+  it("leaves a cloud entry alone when the guest adds nothing", () => {
+    const cloud: DailyJournal = {
+      date: "2024-03-01",
+      highlight: "wrote the intro",
+      rating: 4,
+      answers: { blockers: "meetings" },
+      tomorrow: "outline",
+      tags: ["writing"],
+    };
+    expect(merge([{ ...cloud, rating: 2, tags: ["writing"], answers: {} }], [cloud])).toEqual([]);
+  });
+});
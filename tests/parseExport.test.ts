@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { parseExport } from "../index";
+
+const file = (body: Record<string, unknown>) => JSON.stringify({ app: "neonfocus", version: 1, ...body });
+
+const journal = { date: "2024-03-01", highlight: "wrote the intro", rating: 4 };
+const log = { id: "log-1", timestamp: 1709280000000, durationSeconds: 1500, status: "completed" };
+const task = { id: "task-1", title: "outline", estimate: 2, createdAt: 1709280000000 };
+
+describe("parseExport", () => {
+  it("keeps valid records and counts the rest as invalid", () => {
+    const parsed = parseExport(
+      file({
+        logs: [log, { ...log, id: "users/other/logs/x" }, { ...log, id: ".." }],
+        journals: [
+          journal,
+          { ...journal, date: "2024-03-02", rating: 3.5 },
+          { ...journal, date: "2024-13-45" },
+          { ...journal, date: "2024-02-31" },
+        ],
+        tasks: [task, { ...task, id: "a/b" }, { ...task, id: "task-2", estimate: 1.5 }],
+      })
+    );
+    expect(parsed.logs.map((l) => l.id)).toEqual(["log-1"]);
+    expect(parsed.journals.map((j) => j.date)).toEqual(["2024-03-01"]);
+    expect(parsed.tasks.map((t) => t.id)).toEqual(["task-1"]);
+    expect(parsed.invalid).toBe(7);
+  });
+
+  it("keeps the settings groups that are valid and drops the rest", () => {
+    const { settings } = parseExport(
+      file({
+        settings: {
+          startDate: 1709280000000,
+          timer: "fast",
+          alerts: { focusSound: "meow", volume: 40 },
+          goals: { weekdayHours: [0, 5, 5, 5] },
+          projects: null,
+          journalPrompts: [{ id: "blockers", question: "what got in the way?" }],
+          streakFreezesPerMonth: 2,
+          calendar: { weekStartsOn: 1, timeZone: "Mars/Olympus_Mons" },
+          teams: ["TEAM42", "../x"],
+        },
+      })
+    );
+    expect(settings).toEqual({
+      startDate: 1709280000000,
+      alerts: { focusSound: "meow", volume: 40 },
+      journalPrompts: [{ id: "blockers", question: "what got in the way?" }],
+      streakFreezesPerMonth: 2,
+    });
+  });
+
+  it("only takes themes that exist", () => {
+    const theme = (name: string) => parseExport(file({ settings: { theme: name } })).settings?.theme;
+    expect(theme("contrast")).toBe("contrast");
+    expect(theme("toString")).toBeUndefined();
+    expect(theme("constructor")).toBeUndefined();
+  });
+
+  it("rejects files that aren't neonfocus exports", () => {
+    expect(() => parseExport("{")).toThrow("valid json");
+    expect(() => parseExport(JSON.stringify({ app: "other", version: 1 }))).toThrow("neonfocus export");
+    expect(() => parseExport(file({ version: 99 }))).toThrow("newer version");
+  });
+});
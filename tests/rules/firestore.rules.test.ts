@@ -0,0 +1,258 @@
+// @vitest-environment node
+// Runs against the Firestore emulator: `npm run test:rules`.
+import { readFileSync } from "node:fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc, setLogLevel, updateDoc } from "firebase/firestore";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  setLogLevel("error");
+  env = await initializeTestEnvironment({
+    projectId: "demo-neonfocus",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+afterAll(() => env.cleanup());
+
+beforeEach(() => env.clearFirestore());
+
+const as = (uid: string) => env.authenticatedContext(uid).firestore();
+const anonymous = () => env.unauthenticatedContext().firestore();
+
+// writes test fixtures without going through the rules
+const seed = (path: string, data: Record<string, unknown>) =>
+  env.withSecurityRulesDisabled((ctx) => setDoc(doc(ctx.firestore(), path), data));
+
+const log = { id: "log-1", timestamp: 1709712000000, durationSeconds: 1500, status: "completed" };
+const journal = { date: "2024-03-06", highlight: "wrote the intro", rating: 4 };
+
+describe("users/{uid}", () => {
+  it("lets owners read and write their own data", async () => {
+    const db = as("alice");
+    await assertSucceeds(setDoc(doc(db, "users/alice/logs/log-1"), log));
+    await assertSucceeds(getDoc(doc(db, "users/alice/logs/log-1")));
+    await assertSucceeds(setDoc(doc(db, "users/alice/journals/2024-03-06"), journal));
+    await assertSucceeds(setDoc(doc(db, "users/alice/settings/general"), { projects: [] }));
+    await assertSucceeds(deleteDoc(doc(db, "users/alice/logs/log-1")));
+  });
+
+  it("keeps everyone else out", async () => {
+    await seed("users/alice/logs/log-1", log);
+    await seed("users/alice/journals/2024-03-06", journal);
+    await seed("users/alice/settings/general", { projects: [] });
+
+    for (const db of [as("bob"), anonymous()]) {
+      await assertFails(getDoc(doc(db, "users/alice/logs/log-1")));
+      await assertFails(getDoc(doc(db, "users/alice/journals/2024-03-06")));
+      await assertFails(getDoc(doc(db, "users/alice/settings/general")));
+      await assertFails(setDoc(doc(db, "users/alice/logs/log-2"), { ...log, id: "log-2" }));
+      await assertFails(deleteDoc(doc(db, "users/alice/logs/log-1")));
+    }
+  });
+
+  it("validates work logs", async () => {
+    const ref = doc(as("alice"), "users/alice/logs/log-1");
+    await assertSucceeds(setDoc(ref, { id: "log-1", timestamp: 1709712000000, durationSeconds: 0 }));
+    await assertSucceeds(
+      setDoc(ref, {
+        ...log,
+        project: "thesis",
+        taskId: "task-1",
+        interruptions: [{ at: 1709711000000, kind: "internal" }],
+        pauses: [],
+      })
+    );
+
+    await assertFails(setDoc(ref, { ...log, durationSeconds: -1 }));
+    await assertFails(setDoc(ref, { ...log, durationSeconds: "1500" }));
+    await assertFails(setDoc(ref, { ...log, timestamp: 0 }));
+    await assertFails(setDoc(ref, { ...log, status: "skipped" }));
+    await assertFails(setDoc(ref, { ...log, project: 3 }));
+    await assertFails(setDoc(ref, { ...log, id: "log-2" }));
+    await assertFails(setDoc(ref, { ...log, note: "not a log field" }));
+  });
+
+  it("validates journal entries", async () => {
+    const db = as("alice");
+    const ref = doc(db, "users/alice/journals/2024-03-06");
+    await assertSucceeds(setDoc(ref, { ...journal, rating: 0 }));
+    await assertSucceeds(
+      setDoc(ref, {
+        ...journal,
+        rating: 5,
+        answers: { blockers: "meetings" },
+        tomorrow: "outline",
+        mood: 1,
+        energy: 5,
+        tags: ["writing"],
+      })
+    );
+
+    await assertFails(setDoc(ref, { ...journal, rating: 6 }));
+    await assertFails(setDoc(ref, { ...journal, rating: -1 }));
+    await assertFails(setDoc(ref, { ...journal, rating: 3.5 }));
+    await assertFails(setDoc(ref, { ...journal, mood: 0 }));
+    await assertFails(setDoc(ref, { ...journal, energy: 6 }));
+    await assertFails(setDoc(ref, { ...journal, highlight: null }));
+    await assertFails(setDoc(ref, { ...journal, date: "2024-03-07" }));
+    await assertFails(setDoc(doc(db, "users/alice/journals/6-3-2024"), { ...journal, date: "6-3-2024" }));
+  });
+
+  it("validates tasks", async () => {
+    const ref = doc(as("alice"), "users/alice/tasks/task-1");
+    const task = { id: "task-1", title: "draft chapter 1", estimate: 3, createdAt: 1709712000000 };
+    await assertSucceeds(setDoc(ref, task));
+    await assertSucceeds(setDoc(ref, { ...task, completedAt: 1709713000000 }));
+
+    await assertFails(setDoc(ref, { ...task, estimate: -1 }));
+    await assertFails(setDoc(ref, { ...task, title: 42 }));
+    await assertFails(setDoc(ref, { ...task, notes: "not a task field" }));
+  });
+});
+
+describe("rooms/{code}", () => {
+  const timer = { mode: "focus", durationSeconds: 1500, startedAt: null, pausedAt: null, pausedMs: 0, focusCount: 0 };
+  const room = { code: "ABC234", createdBy: "alice", createdAt: 1, settings: {}, timer };
+  const member = (uid: string) => ({ uid, name: uid, joinedAt: 1, lastSeen: 1, project: null });
+
+  it("lets a signed-in user open a room as themselves", async () => {
+    await assertSucceeds(setDoc(doc(as("alice"), "rooms/ABC234"), room));
+    await assertFails(setDoc(doc(as("bob"), "rooms/XYZ789"), { ...room, code: "XYZ789" }));
+    await assertFails(setDoc(doc(anonymous(), "rooms/XYZ789"), { ...room, code: "XYZ789", createdBy: "" }));
+  });
+
+  it("lets anyone with the code look the room up and join", async () => {
+    await seed("rooms/ABC234", room);
+    const db = as("bob");
+    await assertSucceeds(getDoc(doc(db, "rooms/ABC234")));
+    await assertSucceeds(setDoc(doc(db, "rooms/ABC234/members/bob"), member("bob")));
+    await assertFails(setDoc(doc(db, "rooms/NOPE23/members/bob"), member("bob")));
+    await assertFails(setDoc(doc(db, "rooms/ABC234/members/carol"), member("carol")));
+  });
+
+  it("only lets members see each other and drive the timer", async () => {
+    await seed("rooms/ABC234", room);
+    await seed("rooms/ABC234/members/alice", member("alice"));
+
+    const started = { timer: { ...timer, startedAt: 1709712000000 } };
+    await assertFails(getDoc(doc(as("bob"), "rooms/ABC234/members/alice")));
+    await assertFails(updateDoc(doc(as("bob"), "rooms/ABC234"), started));
+
+    await assertSucceeds(getDoc(doc(as("alice"), "rooms/ABC234/members/alice")));
+    await assertSucceeds(updateDoc(doc(as("alice"), "rooms/ABC234"), started));
+    await assertFails(updateDoc(doc(as("alice"), "rooms/ABC234"), { createdBy: "bob" }));
+  });
+
+  it("rejects malformed timers", async () => {
+    await seed("rooms/ABC234", room);
+    await seed("rooms/ABC234/members/alice", member("alice"));
+    const ref = doc(as("alice"), "rooms/ABC234");
+
+    await assertFails(updateDoc(ref, { timer: "running" }));
+    await assertFails(updateDoc(ref, { timer: { ...timer, mode: "nap" } }));
+    await assertFails(updateDoc(ref, { timer: { ...timer, durationSeconds: -5 } }));
+    await assertFails(updateDoc(ref, { timer: { ...timer, durationSeconds: 1e9 } }));
+    await assertFails(updateDoc(ref, { timer: { ...timer, startedAt: "now" } }));
+    await assertFails(updateDoc(ref, { timer: { ...timer, focusCount: 1.5 } }));
+    await assertFails(updateDoc(ref, { timer: { ...timer, extra: true } }));
+    const { pausedMs, ...missingPausedMs } = timer;
+    await assertFails(updateDoc(ref, { timer: missingPausedMs }));
+    await assertFails(setDoc(doc(as("bob"), "rooms/XYZ789"), { ...room, code: "XYZ789", createdBy: "bob", timer: {} }));
+  });
+
+  it("only accepts member docs with a name and a server clock", async () => {
+    await seed("rooms/ABC234", room);
+    const ref = doc(as("bob"), "rooms/ABC234/members/bob");
+    await assertFails(setDoc(ref, { ...member("bob"), name: 7 }));
+    await assertFails(setDoc(ref, { ...member("bob"), note: "not a member field" }));
+    await assertFails(setDoc(ref, { ...member("bob"), clock: 1709712000000 }));
+    await assertSucceeds(setDoc(ref, { ...member("bob"), clock: serverTimestamp() }));
+  });
+
+  it("lets members leave but not remove others", async () => {
+    await seed("rooms/ABC234", room);
+    await seed("rooms/ABC234/members/alice", member("alice"));
+    await seed("rooms/ABC234/members/bob", member("bob"));
+
+    await assertFails(deleteDoc(doc(as("bob"), "rooms/ABC234/members/alice")));
+    await assertSucceeds(deleteDoc(doc(as("bob"), "rooms/ABC234/members/bob")));
+  });
+});
+
+describe("teams/{id}", () => {
+  const team = { id: "TEAM23", name: "writers", createdBy: "alice", createdAt: 1 };
+  const stats = (uid: string) => ({
+    uid,
+    name: uid,
+    joinedAt: 1,
+    updatedAt: 1,
+    streak: 2,
+    bestStreak: 5,
+    weeks: { "2024-03-03": { seconds: 3600, sessions: 2, daily: [0, 3600, 0, 0, 0, 0, 0] } },
+  });
+
+  it("shares aggregates between members only", async () => {
+    await seed("teams/TEAM23", team);
+    await seed("teams/TEAM23/members/alice", stats("alice"));
+    await seed("teams/TEAM23/members/bob", stats("bob"));
+
+    await assertSucceeds(getDoc(doc(as("bob"), "teams/TEAM23/members/alice")));
+    await assertFails(getDoc(doc(as("carol"), "teams/TEAM23/members/alice")));
+  });
+
+  it("keeps teammates out of each other's journals", async () => {
+    await seed("teams/TEAM23", team);
+    await seed("teams/TEAM23/members/alice", stats("alice"));
+    await seed("teams/TEAM23/members/bob", stats("bob"));
+    await seed("users/alice/journals/2024-03-06", journal);
+
+    await assertFails(getDoc(doc(as("bob"), "users/alice/journals/2024-03-06")));
+  });
+
+  it("only accepts the aggregate fields, written by their owner", async () => {
+    await seed("teams/TEAM23", team);
+    const db = as("alice");
+
+    await assertSucceeds(setDoc(doc(db, "teams/TEAM23/members/alice"), stats("alice")));
+    await assertFails(
+      setDoc(doc(db, "teams/TEAM23/members/alice"), { ...stats("alice"), highlight: "wrote the intro" })
+    );
+    await assertFails(setDoc(doc(db, "teams/TEAM23/members/bob"), stats("bob")));
+    await assertFails(setDoc(doc(db, "teams/NOPE23/members/alice"), stats("alice")));
+    await assertFails(setDoc(doc(db, "teams/TEAM23/members/alice"), { ...stats("alice"), name: null }));
+    await assertFails(setDoc(doc(db, "teams/TEAM23/members/alice"), { ...stats("alice"), streak: -1 }));
+  });
+
+  it("rejects malformed or inflated weeks", async () => {
+    await seed("teams/TEAM23", team);
+    const ref = doc(as("alice"), "teams/TEAM23/members/alice");
+    const week = { seconds: 3600, sessions: 2, daily: [0, 3600, 0, 0, 0, 0, 0] };
+    const withWeeks = (weeks: unknown) => setDoc(ref, { ...stats("alice"), weeks });
+
+    const eightWeeks = Object.fromEntries(
+      ["01-07", "01-14", "01-21", "01-28", "02-04", "02-11", "02-18", "02-25"].map((d) => [`2024-${d}`, week])
+    );
+    await assertSucceeds(withWeeks(eightWeeks));
+    await assertSucceeds(withWeeks({}));
+
+    await assertFails(withWeeks({ ...eightWeeks, "2024-03-03": week }));
+    await assertFails(withWeeks({ "2024-03-03": "lots" }));
+    await assertFails(withWeeks({ "2024-03-03": { ...week, seconds: "3600" } }));
+    await assertFails(withWeeks({ "2024-03-03": { ...week, seconds: 1e12 } }));
+    await assertFails(withWeeks({ "2024-03-03": { ...week, sessions: 2.5 } }));
+    await assertFails(withWeeks({ "2024-03-03": { ...week, daily: [0, 3600] } }));
+    await assertFails(withWeeks({ "2024-03-03": { ...week, daily: [0, 1e9, 0, 0, 0, 0, 0] } }));
+    await assertFails(withWeeks({ "2024-03-03": { ...week, highlight: "wrote the intro" } }));
+    await assertFails(withWeeks({ "next week": week }));
+    // a bad week anywhere in the map is caught, not just the first one
+    await assertFails(withWeeks({ ...eightWeeks, "2024-02-25": { ...week, seconds: -1 } }));
+  });
+});
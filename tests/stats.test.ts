@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeStreaks,
+  dailyTotals,
+  dayKey,
+  daysActive,
+  fromWallClock,
+  hourOf,
+  hourlyTotals,
+  inPeriod,
+  isValidTimeZone,
+  periodDays,
+  periodEnd,
+  periodStart,
+  periodTotal,
+  ratingFor,
+  shiftDay,
+  shiftMonth,
+  timeOf,
+  weekdayOf,
+  weekdayOrder,
+  weekdayTotals,
+  type Calendar,
+} from "../stats";
+
+const utc: Calendar = { weekStartsOn: 0, timeZone: "UTC" };
+const berlin: Calendar = { weekStartsOn: 1, timeZone: "Europe/Berlin" };
+const newYork: Calendar = { weekStartsOn: 0, timeZone: "America/New_York" };
+const kolkata: Calendar = { weekStartsOn: 0, timeZone: "Asia/Kolkata" };
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe("days", () => {
+  it("puts an instant on the day it is in the calendar's zone", () => {
+    const lateEvening = at("2024-03-06T23:30:00Z");
+    expect(dayKey(lateEvening, utc)).toBe("2024-03-06");
+    expect(dayKey(lateEvening, berlin)).toBe("2024-03-07");
+    expect(dayKey(lateEvening, newYork)).toBe("2024-03-06");
+    expect(hourOf(lateEvening, berlin)).toBe(0);
+    expect(hourOf(lateEvening, kolkata)).toBe(5);
+  });
+
+  it("does day arithmetic on dates, not instants", () => {
+    expect(shiftDay("2024-02-28", 1)).toBe("2024-02-29");
+    expect(shiftDay("2024-03-01", -1)).toBe("2024-02-29");
+    expect(shiftDay("2023-12-31", 1)).toBe("2024-01-01");
+    // the spring-forward sunday in berlin is still one day
+    expect(shiftDay("2024-03-30", 1)).toBe("2024-03-31");
+    expect(shiftDay("2024-03-31", 1)).toBe("2024-04-01");
+    expect(shiftMonth("2024-01-31", 1)).toBe("2024-02-01");
+    expect(shiftMonth("2024-01-15", -1)).toBe("2023-12-01");
+    expect(weekdayOf("2024-03-06")).toBe(3);
+  });
+
+  it("converts between instants and wall-clock times in the zone", () => {
+    expect(fromWallClock("2024-03-06", "09:30", kolkata)).toBe(at("2024-03-06T04:00:00Z"));
+    expect(timeOf(at("2024-03-06T04:00:00Z"), kolkata)).toBe("09:30");
+    // either side of berlin's spring-forward and new york's fall-back
+    expect(fromWallClock("2024-03-30", "12:00", berlin)).toBe(at("2024-03-30T11:00:00Z"));
+    expect(fromWallClock("2024-03-31", "12:00", berlin)).toBe(at("2024-03-31T10:00:00Z"));
+    expect(fromWallClock("2024-11-03", "09:00", newYork)).toBe(at("2024-11-03T14:00:00Z"));
+    expect(fromWallClock("2024-11-02", "23:30", newYork)).toBe(at("2024-11-03T03:30:00Z"));
+    expect(timeOf(at("2024-11-03T03:30:00Z"), newYork)).toBe("23:30");
+  });
+
+  it("counts days active from the first day", () => {
+    const started = at("2024-03-01T08:00:00Z");
+    expect(daysActive(started, "2024-03-01", utc)).toBe(1);
+    expect(daysActive(started, "2024-03-10", utc)).toBe(10);
+    expect(daysActive(started, "2024-02-20", utc)).toBe(1);
+  });
+
+  it("knows a time zone when it sees one", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("europe/berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("periods", () => {
+  it("starts weeks on the calendar's week start", () => {
+    // wednesday 6 march 2024
+    expect(periodStart("2024-03-06", "week", utc)).toBe("2024-03-03");
+    expect(periodStart("2024-03-06", "week", berlin)).toBe("2024-03-04");
+    expect(periodStart("2024-03-03", "week", berlin)).toBe("2024-02-26");
+    expect(periodEnd("2024-03-06", "week", berlin)).toBe("2024-03-10");
+    expect(periodDays("2024-03-06", "week", utc)).toEqual([
+      "2024-03-03",
+      "2024-03-04",
+      "2024-03-05",
+      "2024-03-06",
+      "2024-03-07",
+      "2024-03-08",
+      "2024-03-09",
+    ]);
+    expect(weekdayOrder(berlin)).toEqual([1, 2, 3, 4, 5, 6, 0]);
+  });
+
+  it("runs months from the 1st to their last day", () => {
+    expect(periodStart("2024-02-17", "month", utc)).toBe("2024-02-01");
+    expect(periodEnd("2024-02-17", "month", utc)).toBe("2024-02-29");
+    expect(periodDays("2023-02-10", "month", utc)).toHaveLength(28);
+    expect(periodDays("2024-12-31", "month", utc).at(-1)).toBe("2024-12-31");
+  });
+
+  it("treats weeks and months as calendar periods alike", () => {
+    expect(inPeriod("2024-03-03", "week", "2024-03-06", utc)).toBe(true);
+    expect(inPeriod("2024-03-02", "week", "2024-03-06", utc)).toBe(false);
+    expect(inPeriod("2024-03-01", "month", "2024-03-06", utc)).toBe(true);
+    expect(inPeriod("2024-02-29", "month", "2024-03-06", utc)).toBe(false);
+    expect(inPeriod("2024-03-06", "day", "2024-03-06", utc)).toBe(true);
+    expect(inPeriod("2024-03-05", "day", "2024-03-06", utc)).toBe(false);
+  });
+});
+
+describe("totals", () => {
+  const logs = [
+    { timestamp: at("2024-03-06T23:30:00Z"), durationSeconds: 1500 },
+    { timestamp: at("2024-03-06T10:00:00Z"), durationSeconds: 3600 },
+    { timestamp: at("2024-03-03T12:00:00Z"), durationSeconds: 600 },
+  ];
+
+  it("sums seconds per day in the calendar's zone", () => {
+    expect(Object.fromEntries(dailyTotals(logs, utc))).toEqual({
+      "2024-03-06": 5100,
+      "2024-03-03": 600,
+    });
+    expect(Object.fromEntries(dailyTotals(logs, berlin))).toEqual({
+      "2024-03-07": 1500,
+      "2024-03-06": 3600,
+      "2024-03-03": 600,
+    });
+  });
+
+  it("sums the period around a day", () => {
+    expect(periodTotal(logs, "day", "2024-03-06", utc)).toBe(5100);
+    expect(periodTotal(logs, "week", "2024-03-06", utc)).toBe(5700);
+    // sunday the 3rd belongs to the week before when weeks start on monday
+    expect(periodTotal(logs, "week", "2024-03-06", berlin)).toBe(5100);
+    expect(periodTotal(logs, "month", "2024-03-06", utc)).toBe(5700);
+  });
+
+  it("splits sessions over the local hours they ran in", () => {
+    // 09:00-10:00 utc is 14:30-15:30 in kolkata
+    const buckets = hourlyTotals([{ timestamp: at("2024-03-06T10:00:00Z"), durationSeconds: 3600 }], kolkata);
+    expect(buckets[14]).toBe(1800);
+    expect(buckets[15]).toBe(1800);
+    expect(buckets.reduce((a, b) => a + b, 0)).toBe(3600);
+  });
+
+  it("buckets by weekday", () => {
+    const buckets = weekdayTotals(logs, berlin);
+    expect(buckets[3]).toBe(3600); // wednesday
+    expect(buckets[4]).toBe(1500); // thursday, already in berlin
+    expect(buckets[0]).toBe(600);
+  });
+});
+
+describe("ratingFor", () => {
+  it("rates time worked against the goal out of five", () => {
+    expect(ratingFor(0, 5 * 3600)).toBe(0);
+    expect(ratingFor(3 * 3600, 5 * 3600)).toBe(3);
+    expect(ratingFor(4.5 * 3600, 5 * 3600)).toBe(5);
+    expect(ratingFor(8 * 3600, 5 * 3600)).toBe(5);
+  });
+
+  it("gives any work on a rest day full marks", () => {
+    expect(ratingFor(60, 0)).toBe(5);
+    expect(ratingFor(0, 0)).toBe(0);
+  });
+});
+
+describe("computeStreaks", () => {
+  const rated = (ratings: Record<string, number>) =>
+    Object.entries(ratings).map(([date, rating]) => ({ date, rating }));
+  const base = { today: "2024-03-10", minRating: 3, freezesPerMonth: 0 };
+
+  it("counts consecutive good days up to today", () => {
+    const days = rated({ "2024-03-07": 4, "2024-03-08": 3, "2024-03-09": 5 });
+    expect(computeStreaks(days, base)).toEqual({ current: 3, best: 3, freezesUsedThisMonth: 0 });
+  });
+
+  it("doesn't count an unrated today as a miss", () => {
+    const days = rated({ "2024-03-08": 4, "2024-03-09": 4 });
+    expect(computeStreaks(days, base).current).toBe(2);
+    expect(computeStreaks(rated({ "2024-03-09": 4, "2024-03-10": 4 }), base).current).toBe(2);
+  });
+
+  it("breaks on a missed or low-rated day and keeps the best run", () => {
+    const days = rated({
+      "2024-03-01": 4,
+      "2024-03-02": 4,
+      "2024-03-03": 4,
+      "2024-03-05": 4,
+      "2024-03-06": 2,
+      "2024-03-07": 4,
+      "2024-03-08": 4,
+      "2024-03-09": 4,
+    });
+    expect(computeStreaks(days, base)).toEqual({ current: 3, best: 3, freezesUsedThisMonth: 0 });
+    expect(computeStreaks(rated({ "2024-03-01": 4, "2024-03-02": 4 }), base).current).toBe(0);
+  });
+
+  it("bridges rest days without counting them", () => {
+    const days = rated({ "2024-03-08": 4, "2024-03-10": 4 });
+    const isRestDay = (key: string) => key === "2024-03-09";
+    expect(computeStreaks(days, { ...base, isRestDay }).current).toBe(2);
+    expect(computeStreaks(days, base).current).toBe(1);
+  });
+
+  it("spends freezes on missed days, per month", () => {
+    const days = rated({ "2024-02-28": 4, "2024-03-01": 4, "2024-03-03": 4, "2024-03-05": 4 });
+    expect(computeStreaks(days, { ...base, today: "2024-03-05", freezesPerMonth: 2 })).toEqual({
+      current: 4,
+      best: 4,
+      freezesUsedThisMonth: 2,
+    });
+    expect(computeStreaks(days, { ...base, today: "2024-03-05", freezesPerMonth: 1 }).current).toBe(1);
+  });
+
+  it("ignores days after today", () => {
+    expect(computeStreaks(rated({ "2024-03-11": 5 }), base)).toEqual({
+      current: 0,
+      best: 0,
+      freezesUsedThisMonth: 0,
+    });
+  });
+});